@@ -1,15 +1,51 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { TextAreaWithSentiment } from './components/TextAreaWithSentiment';
 import { TranslateIcon, LoadingSpinner, LightbulbIcon } from './components/icons';
-import { getTranslationAndSentiment, getSentiment, getEmojiSuggestions } from './services/geminiService';
-import type { Sentiment, Language, EmojiSuggestion, UITranslations, TextStyle } from './types';
-import { SUPPORTED_LANGUAGES } from './constants';
-import { getEmojiForScore } from './emoji';
+import { TRANSLATION_PROVIDERS, getProvider, getDefaultProvider } from './services/providers';
+import type { Sentiment, Language, LanguageDetection, EmojiSuggestion, EmojiPlacement, UITranslations, TextStyle, ProviderId, ModalParticle, SegmentAlignment, SentimentScore, RankedCandidate, HistoryEntry, PartialTranslationResponse, PlotPoint, AudienceProfile, TranslationReport } from './types';
+import { SUPPORTED_LANGUAGES, EMOJI_SUGGESTION_THRESHOLD } from './constants';
+import { getEmojiForSentiment, insertEmoji } from './emoji';
 import { EmojiSuggestionBox } from './components/EmojiSuggestionBox';
+import { getParticleHighlights, getSegmentHighlights, getGlossaryHighlights } from './components/highlights';
+import { ToneTargetControls } from './components/ToneTargetControls';
+import { CandidateList } from './components/CandidateList';
+import { rankCandidatesByFidelity, isSignificantDifference } from './sentiment';
+import { HistoryPanel } from './components/HistoryPanel';
+import { BatchPanel } from './components/BatchPanel';
+import { ThreadPanel } from './components/ThreadPanel';
+import { FanOutPanel } from './components/FanOutPanel';
+import { EmojiLexiconPanel } from './components/EmojiLexiconPanel';
+import { clearResponseCache } from './services/cache';
+import { saveHistoryEntry } from './services/historyStore';
+import { classifyError, type TranslatorError } from './services/errors';
+import { ErrorBanner } from './components/ErrorBanner';
+import { useLiveSentiment } from './hooks/useLiveSentiment';
+import { TranslationDiff } from './components/TranslationDiff';
+import { LanguagePicker } from './components/LanguagePicker';
+import { RoundTripCheck } from './components/RoundTripCheck';
+import { diffWords } from './diff';
+import { scoreWithLexicon } from './lexiconSentiment';
+import { getSentimentWithFallback } from './services/sentimentFallback';
+import { sampleSentiment } from './services/sampling';
+import { getGenerationInfo } from './services/settings';
+import { SettingsPanel } from './components/SettingsPanel';
+import { AudienceProfilePanel } from './components/AudienceProfilePanel';
+import { getAudienceProfile, getAudienceProfiles } from './audiences';
+import { guessLanguage } from './languages';
+import { checkGlossary, getGlossary, selectGlossaryEntries } from './glossary';
+import { GlossaryPanel } from './components/GlossaryPanel';
+import { ExportMenu } from './components/ExportMenu';
+
+const CANDIDATE_COUNT_OPTIONS = [0, 2, 3, 4, 5];
+const SAMPLE_COUNT_OPTIONS = [1, 3, 5, 7];
 
 const App: React.FC = () => {
+  const [providerId, setProviderId] = useState<ProviderId>(() => getDefaultProvider().id);
   const [sourceLanguage, setSourceLanguage] = useState<Language>(SUPPORTED_LANGUAGES.find(l => l.code === 'th') || SUPPORTED_LANGUAGES[0]); // Default to Thai
+  // When on, the source language is detected from the text at translation time and replaces sourceLanguage.
+  const [isAutoDetect, setIsAutoDetect] = useState(true);
+  const [detection, setDetection] = useState<LanguageDetection | null>(null);
   const [targetLanguage, setTargetLanguage] = useState<Language>(SUPPORTED_LANGUAGES[1]); // Default to Korean
   const [sourceText, setSourceText] = useState('ไปไหนมานะ'); // Default Thai example: "Where have you been? (softened)"
   
@@ -17,113 +53,487 @@ const App: React.FC = () => {
   const [sourceSentiment, setSourceSentiment] = useState<Sentiment | null>(null);
   const [translatedSentiment, setTranslatedSentiment] = useState<Sentiment | null>(null);
   const [emojiSuggestion, setEmojiSuggestion] = useState<EmojiSuggestion | null>(null);
+  const [emojiPreview, setEmojiPreview] = useState<EmojiPlacement | null>(null);
   const [nuanceExplanation, setNuanceExplanation] = useState<string | null>(null);
   const [uiTranslations, setUiTranslations] = useState<UITranslations | null>(null);
   const [sourceStyle, setSourceStyle] = useState<TextStyle | null>(null);
   const [translatedStyle, setTranslatedStyle] = useState<TextStyle | null>(null);
+  const [particles, setParticles] = useState<ModalParticle[]>([]);
+  const [segments, setSegments] = useState<SegmentAlignment[]>([]);
+  const [showHeatmap, setShowHeatmap] = useState(true);
+  const [toneTarget, setToneTarget] = useState<SentimentScore | null>(null);
+  const [trajectory, setTrajectory] = useState<SentimentScore[]>([]);
+  const [isRetranslating, setIsRetranslating] = useState(false);
+  const [candidateCount, setCandidateCount] = useState(0);
+  const [candidates, setCandidates] = useState<RankedCandidate[]>([]);
+  const [sampleCount, setSampleCount] = useState(1);
+  const [varyTemperature, setVaryTemperature] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [isLiveAnalysis, setIsLiveAnalysis] = useState(true);
+  // The source text whose score came with a translation or a restored entry; live analysis leaves that score alone.
+  const [sourceScoredText, setSourceScoredText] = useState<string | null>(null);
+  const [showBaseline, setShowBaseline] = useState(false);
+  const [audienceId, setAudienceId] = useState('');
+  // The profile the current translation was made for; changing the selection only applies to the next one.
+  const [translationAudience, setTranslationAudience] = useState<AudienceProfile | null>(null);
+  // What the shown translation was made with; the pickers and settings may have changed since.
+  const [translationOrigin, setTranslationOrigin] = useState<Pick<TranslationReport, 'createdAt' | 'providerId' | 'sourceLanguage' | 'targetLanguage' | 'generation'> | null>(null);
+  const [audienceProfiles, setAudienceProfiles] = useState<AudienceProfile[]>(getAudienceProfiles);
+  const [glossaryVersion, setGlossaryVersion] = useState(0);
+  // What the model produced, so that manual edits can be diffed against and reverted to it.
+  const [modelOutput, setModelOutput] = useState<{ text: string; sentiment: Sentiment } | null>(null);
 
   const [isLoading, setIsLoading] = useState(false);
-  const [isTranslatedAnalyzing, setIsTranslatedAnalyzing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<TranslatorError | null>(null);
+  const [retryAction, setRetryAction] = useState<(() => void) | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const analyzeTranslatedSentiment = useCallback(async (text: string) => {
-    if (!text.trim()) {
-      setTranslatedSentiment(null);
-      return;
-    }
-    setIsTranslatedAnalyzing(true);
-     try {
-        const { score, intimacy, formality } = await getSentiment(text);
-        setTranslatedSentiment({ score, intimacy, formality, emoji: getEmojiForScore(score) });
-    } catch (e) {
-        setTranslatedSentiment({ score: 0, intimacy: 50, formality: 50, emoji: getEmojiForScore(0) });
-    } finally {
-        setIsTranslatedAnalyzing(false);
+  const provider = getProvider(providerId);
+  const requestOptions = { bypassCache };
+
+  /**
+   * Cancels whatever translation or rewrite is still running and starts tracking a new one.
+   * @returns The controller of the new request.
+   */
+  const startRequest = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return controller;
+  };
+
+  /**
+   * Shows a failed request in the error banner, unless it was cancelled on purpose.
+   * @param err The thrown value.
+   * @param retry Repeats the failed action when the user clicks Retry.
+   */
+  const reportError = (err: unknown, retry: () => void) => {
+    const translatorError = classifyError(err);
+    if (translatorError.kind === 'cancelled') return;
+    console.error(err);
+    setError(translatorError);
+    setRetryAction(() => retry);
+  };
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  // Until a translation has detected it, an auto-detected source language is guessed
+  // locally from the text, so that scoring the main text does not assume the default.
+  // The batch, fan-out and thread panels translate other texts, so they use the picker's language.
+  const sourceGuess = useMemo(
+    () => (isAutoDetect && !detection ? guessLanguage(sourceText) : null),
+    [isAutoDetect, detection, sourceText]
+  );
+  const effectiveSourceLanguage = sourceGuess?.language ?? sourceLanguage;
+  // Everything about the shown translation uses the languages it was made with, not the current pickers.
+  const translationSource = translationOrigin?.sourceLanguage ?? effectiveSourceLanguage;
+  const translationTarget = translationOrigin?.targetLanguage ?? targetLanguage;
+
+  // A running translation scores the source text itself, so live analysis waits for it.
+  const liveSource = useLiveSentiment(provider, sourceText, {
+    enabled: isLiveAnalysis && !isLoading && sourceScoredText !== sourceText,
+    languageCode: effectiveSourceLanguage.code,
+  });
+
+  useEffect(() => {
+    // A score that arrives after live analysis was turned off, or for an older wording, is dropped.
+    if (!isLiveAnalysis || sourceScoredText === sourceText || liveSource.scoredText !== sourceText) return;
+    const score = liveSource.sentiment;
+    setSourceSentiment(score && { ...score, emoji: getEmojiForSentiment(score, effectiveSourceLanguage.code), isFallback: liveSource.isFallback });
+  }, [liveSource.sentiment, liveSource.scoredText, liveSource.isFallback, isLiveAnalysis, sourceScoredText, sourceText, effectiveSourceLanguage]);
+
+  // A preview belongs to the suggestion it was picked from.
+  useEffect(() => setEmojiPreview(null), [emojiSuggestion]);
+
+  const isTranslationEdited = modelOutput !== null && translatedText !== modelOutput.text;
+  const liveTranslation = useLiveSentiment(provider, translatedText, {
+    enabled: isTranslationEdited && !isLoading && !isRetranslating,
+    languageCode: translationTarget.code,
+  });
+
+  useEffect(() => {
+    // Only a score for exactly the current wording may move the point on the map.
+    if (!isTranslationEdited || liveTranslation.scoredText !== translatedText) return;
+    const score = liveTranslation.sentiment;
+    setTranslatedSentiment(score && { ...score, emoji: getEmojiForSentiment(score, translationTarget.code), isFallback: liveTranslation.isFallback });
+  }, [liveTranslation.sentiment, liveTranslation.scoredText, translatedText]);
+
+  const glossary = useMemo(
+    () => getGlossary(translationSource.code, translationTarget.code),
+    [translationSource, translationTarget, glossaryVersion]
+  );
+  // Checked against the current text, so that manual edits are checked too; a streaming translation is not finished yet.
+  const glossaryViolations = useMemo(
+    () => (translatedText && !isLoading ? checkGlossary(sourceText, translatedText, glossary) : []),
+    [sourceText, translatedText, isLoading, glossary]
+  );
+
+  // The lexicon scorer is synchronous and deterministic, so the baseline simply follows the text.
+  const sourceBaseline = useMemo(
+    () => (showBaseline && sourceText.trim() ? scoreWithLexicon(sourceText, effectiveSourceLanguage.code) : null),
+    [showBaseline, sourceText, effectiveSourceLanguage]
+  );
+  const translatedBaseline = useMemo(
+    () => (showBaseline && translatedText.trim() ? scoreWithLexicon(translatedText, translationTarget.code) : null),
+    [showBaseline, translatedText, translationTarget]
+  );
+
+  // What the export buttons and share links carry: the result as shown, including manual edits.
+  const report = useMemo((): TranslationReport | null => {
+    if (!modelOutput || !translationOrigin || !translatedText || !sourceSentiment || !translatedSentiment || !uiTranslations || !sourceStyle || !translatedStyle) {
+      return null;
     }
-  }, []);
+    return {
+      formatVersion: 1,
+      ...translationOrigin,
+      sourceText,
+      response: {
+        translation: translatedText,
+        sourceSentiment,
+        translatedSentiment,
+        uiTranslations,
+        nuance: nuanceExplanation ?? undefined,
+        sourceStyle,
+        translatedStyle,
+        particles,
+        segments,
+      },
+      emojiSuggestion,
+      isEdited: isTranslationEdited,
+      audience: translationAudience ?? undefined,
+    };
+  }, [modelOutput, translationOrigin, translatedText, sourceSentiment, translatedSentiment, uiTranslations, sourceStyle, translatedStyle, nuanceExplanation, particles, segments, emojiSuggestion, translationAudience, sourceText]);
 
   const handleTranslate = useCallback(async () => {
     if (!sourceText.trim()) return;
 
+    const controller = startRequest();
+    const audience = getAudienceProfile(audienceId);
+    const options = { ...requestOptions, signal: controller.signal, audience };
+    // Read before the requests, as the settings or prompt versions may change while they run.
+    const generation = getGenerationInfo(provider);
+    const createdAt = Date.now();
     setIsLoading(true);
     setError(null);
+    setModelOutput(null);
     setTranslatedText('');
     setTranslatedSentiment(null);
     setEmojiSuggestion(null);
     setNuanceExplanation(null);
     setSourceSentiment(null);
+    setSourceScoredText(null);
     setUiTranslations(null);
     setSourceStyle(null);
     setTranslatedStyle(null);
+    setParticles([]);
+    setSegments([]);
+    setToneTarget(null);
+    setTrajectory([]);
+    setCandidates([]);
+    setTranslationAudience(audience ?? null);
+    setTranslationOrigin(null);
+
+    // Replaced by the detected language before anything is translated.
+    let source = sourceLanguage;
+
+    // Show each field as soon as it has streamed in; the final response below overwrites them all.
+    const handlePartial = (partial: PartialTranslationResponse) => {
+      if (controller.signal.aborted) return;
+      if (partial.translation !== undefined) setTranslatedText(partial.translation);
+      if (partial.sourceSentiment) setSourceSentiment({ ...partial.sourceSentiment, emoji: getEmojiForSentiment(partial.sourceSentiment, source.code) });
+      if (partial.translatedSentiment) setTranslatedSentiment({ ...partial.translatedSentiment, emoji: getEmojiForSentiment(partial.translatedSentiment, targetLanguage.code) });
+      if (partial.sourceStyle) setSourceStyle(partial.sourceStyle);
+      if (partial.translatedStyle) setTranslatedStyle(partial.translatedStyle);
+      if (partial.nuance) setNuanceExplanation(partial.nuance);
+    };
 
     try {
-      const { 
+      if (isAutoDetect) {
+        let detected: LanguageDetection;
+        try {
+          detected = await provider.detectLanguage(sourceText, options);
+        } catch (err) {
+          if (classifyError(err).kind === 'cancelled') throw err;
+          // Detection only picks the language, so a failure falls back to the local guess.
+          console.error("Error detecting the language:", err);
+          detected = guessLanguage(sourceText) ?? { language: sourceLanguage, confidence: 0 };
+        }
+        if (controller.signal.aborted) return;
+        source = detected.language;
+        setDetection(detected);
+        setSourceLanguage(detected.language);
+      }
+      setTranslationOrigin({ createdAt, providerId: provider.id, sourceLanguage: source, targetLanguage, generation });
+      // Only the terms that occur in the text are worth sending.
+      const translationOptions = { ...options, glossary: selectGlossaryEntries(sourceText, getGlossary(source.code, targetLanguage.code)) };
+
+      const [{ 
         translation, 
         nuance, 
-        sourceSentiment: srcSentiment, 
-        translatedSentiment: transSentiment, 
+        sourceSentiment: firstSourceSentiment,
+        translatedSentiment: firstTranslatedSentiment,
         uiTranslations: newUiTranslations,
         sourceStyle: newSourceStyle,
         translatedStyle: newTranslatedStyle,
-       } = 
-        await getTranslationAndSentiment(sourceText, sourceLanguage.code, targetLanguage.name);
-      
-      setSourceSentiment({ 
+        particles: newParticles,
+        segments: newSegments,
+       }, alternatives] = await Promise.all([
+        provider.streamTranslationAndSentiment(sourceText, source.code, targetLanguage.name, handlePartial, translationOptions),
+        // Alternatives are extras: if they fail, the translation is still shown, just without them.
+        candidateCount > 0
+          ? provider.getTranslationCandidates(sourceText, source.code, targetLanguage.name, candidateCount, translationOptions)
+              .catch(err => {
+                if (classifyError(err).kind !== 'cancelled') console.error("Error getting alternative translations:", err);
+                return [];
+              })
+          : Promise.resolve([]),
+      ]);
+
+      // Several samples smooth out run-to-run noise; the score that came with the translation counts as the first.
+      const samplingOptions = { ...options, varyTemperature };
+      const [srcSentiment, transSentiment] = sampleCount > 1
+        ? await Promise.all([
+            sampleSentiment(provider, sourceText, sampleCount - 1, samplingOptions, [firstSourceSentiment]),
+            sampleSentiment(provider, translation, sampleCount - 1, samplingOptions, [firstTranslatedSentiment]),
+          ])
+        : [firstSourceSentiment, firstTranslatedSentiment];
+
+      const newSourceSentiment = { 
         ...srcSentiment, 
-        emoji: getEmojiForScore(srcSentiment.score) 
-      });
-      setTranslatedText(translation);
-      setTranslatedSentiment({
+        emoji: getEmojiForSentiment(srcSentiment, source.code)
+      };
+      const newTranslatedSentiment = {
         ...transSentiment,
-        emoji: getEmojiForScore(transSentiment.score)
-      });
+        emoji: getEmojiForSentiment(transSentiment, targetLanguage.code)
+      };
+      setSourceSentiment(newSourceSentiment);
+      // A live re-score of the same text would replace the sampled mean and its spread with a single score.
+      setSourceScoredText(sourceText);
+      setTranslatedText(translation);
+      setTranslatedSentiment(newTranslatedSentiment);
+      setModelOutput({ text: translation, sentiment: newTranslatedSentiment });
       
       setUiTranslations(newUiTranslations);
       setSourceStyle(newSourceStyle);
       setTranslatedStyle(newTranslatedStyle);
+      setParticles(newParticles ?? []);
+      setSegments(newSegments ?? []);
+      setToneTarget({ score: srcSentiment.score, intimacy: srcSentiment.intimacy, formality: srcSentiment.formality });
+      if (alternatives.length > 0) {
+        // The main translation competes too, so the user can always return to it.
+        setCandidates(rankCandidatesByFidelity(
+          [{ strategy: 'default', translation, sentiment: transSentiment, style: newTranslatedStyle }, ...alternatives],
+          srcSentiment
+        ));
+      }
 
       if (nuance) {
           setNuanceExplanation(nuance);
       }
 
-      const scoreDifference = Math.abs(srcSentiment.score - transSentiment.score);
-      if (scoreDifference > 0.2) { // Threshold to avoid suggestions for tiny differences
-        const suggestions = await getEmojiSuggestions(sourceText, translation, srcSentiment.score, transSentiment.score);
-        setEmojiSuggestion(suggestions);
+      let suggestions: EmojiSuggestion | null = null;
+      // Tiny or noise-level differences do not warrant suggestions, nor does an audience that takes no emojis.
+      if (audience?.emojiPolicy !== 'none' && isSignificantDifference(srcSentiment, transSentiment, EMOJI_SUGGESTION_THRESHOLD)) {
+        try {
+          suggestions = await provider.getEmojiSuggestions(
+            sourceText, translation, srcSentiment.score, transSentiment.score, { ...options, targetLanguageCode: targetLanguage.code }
+          );
+          setEmojiSuggestion(suggestions);
+        } catch (err) {
+          // Suggestions are extras: without them the translation is still shown and saved.
+          if (classifyError(err).kind === 'cancelled') throw err;
+          console.error("Error getting emoji suggestions:", err);
+        }
+      }
+
+      // Persisting is best-effort; a failure here must not hide the translation.
+      saveHistoryEntry({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        providerId: provider.id,
+        sourceLanguage: source,
+        targetLanguage,
+        sourceText,
+        translatedText: translation,
+        sourceSentiment: newSourceSentiment,
+        translatedSentiment: newTranslatedSentiment,
+        nuance,
+        sourceStyle: newSourceStyle,
+        translatedStyle: newTranslatedStyle,
+        uiTranslations: newUiTranslations,
+        emojiSuggestion: suggestions,
+        particles: newParticles,
+        segments: newSegments,
+        isFavorite: false,
+        generation,
+        audience,
+      })
+        .then(() => setHistoryVersion(v => v + 1))
+        .catch(e => console.error("Error saving history:", e));
+
+    } catch (err) {
+      reportError(err, handleTranslate);
+    } finally {
+      // A newer request owns the loading state once this one has been superseded.
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsLoading(false);
       }
+    }
+  }, [sourceText, sourceLanguage, isAutoDetect, targetLanguage, provider, candidateCount, sampleCount, varyTemperature, bypassCache, audienceId]);
+
+  const handleRetranslate = useCallback(async () => {
+    if (!toneTarget || !translatedText || !translatedSentiment) return;
 
+    const controller = startRequest();
+    const options = { ...requestOptions, signal: controller.signal };
+    const glossaryOptions = { ...options, glossary: selectGlossaryEntries(sourceText, glossary) };
+    setIsRetranslating(true);
+    setError(null);
+
+    try {
+      const { translation, translatedStyle: newTranslatedStyle } = await provider.getToneTargetedTranslation(
+        sourceText, translationSource.code, translationTarget.name, translatedText, toneTarget, glossaryOptions
+      );
+      // Re-score independently rather than trusting the model's claim of hitting the target.
+      const { sentiment, isFallback } = await getSentimentWithFallback(provider, translation, translationTarget.code, options);
+      const { score, intimacy, formality } = sentiment;
+
+      const newTranslatedSentiment = { score, intimacy, formality, emoji: getEmojiForSentiment(sentiment, translationTarget.code), isFallback };
+      setTrajectory(prev => [...(prev.length ? prev : [translatedSentiment]), { score, intimacy, formality }]);
+      setTranslatedText(translation);
+      setTranslatedSentiment(newTranslatedSentiment);
+      setModelOutput({ text: translation, sentiment: newTranslatedSentiment });
+      setTranslatedStyle(newTranslatedStyle);
+      // Segment alignment and emoji suggestions describe the previous wording.
+      setSegments([]);
+      setEmojiSuggestion(null);
     } catch (err) {
-      setError('An error occurred. Please check your API key and try again.');
-      console.error(err);
+      reportError(err, handleRetranslate);
     } finally {
-      setIsLoading(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+      setIsRetranslating(false);
     }
-  }, [sourceText, sourceLanguage, targetLanguage]);
+  }, [provider, sourceText, translationSource, translationTarget, translatedText, translatedSentiment, toneTarget, bypassCache, glossary]);
 
-  const handleEmojiAdd = (emoji: string) => {
-    const newText = (translatedText.trim() + ' ' + emoji).trim();
+  const handleCandidateSelect = (candidate: RankedCandidate) => {
+    const candidateSentiment = { ...candidate.sentiment, emoji: getEmojiForSentiment(candidate.sentiment, translationTarget.code) };
+    setTranslatedText(candidate.translation);
+    setTranslatedSentiment(candidateSentiment);
+    setModelOutput({ text: candidate.translation, sentiment: candidateSentiment });
+    setTranslatedStyle(candidate.style);
+    // Segment alignment, emoji suggestions and the tone trajectory describe the previous wording.
+    setSegments([]);
+    setEmojiSuggestion(null);
+    setTrajectory([]);
+  };
+
+  const handleHistoryRestore = (entry: HistoryEntry) => {
+    setSourceLanguage(entry.sourceLanguage);
+    setIsAutoDetect(false);
+    setDetection(null);
+    setTargetLanguage(entry.targetLanguage);
+    setSourceText(entry.sourceText);
+    setTranslatedText(entry.translatedText);
+    setSourceSentiment(entry.sourceSentiment);
+    setSourceScoredText(entry.sourceText);
+    setTranslatedSentiment(entry.translatedSentiment);
+    setModelOutput({ text: entry.translatedText, sentiment: entry.translatedSentiment });
+    setNuanceExplanation(entry.nuance ?? null);
+    setSourceStyle(entry.sourceStyle);
+    setTranslatedStyle(entry.translatedStyle);
+    setUiTranslations(entry.uiTranslations);
+    setEmojiSuggestion(entry.emojiSuggestion);
+    setParticles(entry.particles ?? []);
+    setSegments(entry.segments ?? []);
+    setTranslationAudience(entry.audience ?? null);
+    setTranslationOrigin({
+      createdAt: entry.timestamp,
+      providerId: entry.providerId,
+      sourceLanguage: entry.sourceLanguage,
+      targetLanguage: entry.targetLanguage,
+      generation: entry.generation,
+    });
+    setAudienceId(entry.audience && getAudienceProfile(entry.audience.id) ? entry.audience.id : '');
+    setToneTarget({
+      score: entry.sourceSentiment.score,
+      intimacy: entry.sourceSentiment.intimacy,
+      formality: entry.sourceSentiment.formality,
+    });
+    setTrajectory([]);
+    setCandidates([]);
+    setError(null);
+  };
+
+  const handleToneReset = () => {
+    if (sourceSentiment) {
+      setToneTarget({ score: sourceSentiment.score, intimacy: sourceSentiment.intimacy, formality: sourceSentiment.formality });
+    }
+  };
+
+  const handleTranslationChange = (newText: string) => {
     setTranslatedText(newText);
-    analyzeTranslatedSentiment(newText);
+    // Back at the model's wording, its own score applies again without another request.
+    if (modelOutput && newText === modelOutput.text) {
+      setTranslatedSentiment(modelOutput.sentiment);
+    }
+  };
+
+  const handleEmojiInsert = (emoji: string, position: number) => {
+    handleTranslationChange(insertEmoji(translatedText, emoji, position));
+    setEmojiPreview(null);
+  };
+
+  // The at-a-glance emojis depend on the lexicon, so re-pick them for the current scores.
+  const handleLexiconChange = () => {
+    setSourceSentiment(s => s && { ...s, emoji: getEmojiForSentiment(s, translationSource.code) });
+    setTranslatedSentiment(s => s && { ...s, emoji: getEmojiForSentiment(s, translationTarget.code) });
   };
 
   const handleSourceTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newText = e.target.value;
+    // A translation still running for the old text must not fill in over the new one.
+    abortRef.current?.abort();
     setSourceText(newText);
+    // A detection describes the text it was made for.
+    setDetection(null);
     // If user changes source text, the old translation is invalid.
-    // Clear all derived state.
-    if (translatedText) {
-        setTranslatedText('');
-        setSourceSentiment(null); 
-        setTranslatedSentiment(null);
-        setEmojiSuggestion(null);
-        setNuanceExplanation(null);
-        setUiTranslations(null);
-        setError(null);
-        setSourceStyle(null);
-        setTranslatedStyle(null);
-    }
+    // Clear all derived state, even without a translation: particle and
+    // segment highlights refer to character positions in the old text.
+    setTranslatedText('');
+    setModelOutput(null);
+    setTranslationOrigin(null);
+    // In live mode the previous score stays visible until the new one arrives.
+    if (!isLiveAnalysis) setSourceSentiment(null);
+    setSourceScoredText(null);
+    setTranslatedSentiment(null);
+    setEmojiSuggestion(null);
+    setNuanceExplanation(null);
+    setUiTranslations(null);
+    setError(null);
+    setSourceStyle(null);
+    setTranslatedStyle(null);
+    setParticles([]);
+    setSegments([]);
+    setToneTarget(null);
+    setTrajectory([]);
+    setCandidates([]);
   };
 
+  const heatmapSegments = showHeatmap ? segments : [];
+  const candidatePoints = candidates.map((c, i) => ({
+    id: String(i + 1),
+    label: `${i + 1}. ${c.strategy}`,
+    sentiment: c.sentiment,
+    isSelected: c.translation === translatedText,
+  }));
+  const translationPoints: PlotPoint[] = emojiPreview?.predictedSentiment
+    ? [...candidatePoints, { id: emojiPreview.emoji, label: `With ${emojiPreview.emoji} (predicted)`, sentiment: emojiPreview.predictedSentiment }]
+    : candidatePoints;
+
   return (
     <div className="min-h-screen bg-gray-900 text-white font-sans p-4 sm:p-8 flex flex-col items-center">
       <div className="w-full max-w-4xl mx-auto">
@@ -137,50 +547,49 @@ const App: React.FC = () => {
         </header>
 
         <main className="flex flex-col gap-8">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end p-4 bg-white/5 rounded-lg border border-cyan-500/30">
-            <div className="w-full">
-                <label htmlFor="source-language" className="block mb-1 text-sm font-medium text-cyan-200">Translate from</label>
-                <select
-                    id="source-language"
-                    value={sourceLanguage.code}
-                    onChange={(e) => {
-                        const selectedLang = SUPPORTED_LANGUAGES.find(l => l.code === e.target.value);
-                        if(selectedLang) setSourceLanguage(selectedLang);
-                    }}
-                    className="w-full p-2 text-white bg-gray-800 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-400 focus:outline-none"
-                    disabled={isLoading}
-                >
-                    {SUPPORTED_LANGUAGES.map(lang => (
-                        <option key={lang.code} value={lang.code}>{lang.name}</option>
-                    ))}
-                </select>
-            </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end p-4 bg-white/5 rounded-lg border border-cyan-500/30">
             <div className="w-full">
-                <label htmlFor="target-language" className="block mb-1 text-sm font-medium text-cyan-200">Translate to</label>
+                <label htmlFor="provider" className="block mb-1 text-sm font-medium text-cyan-200">Provider</label>
                 <select
-                    id="target-language"
-                    value={targetLanguage.code}
-                    onChange={(e) => {
-                        const selectedLang = SUPPORTED_LANGUAGES.find(l => l.code === e.target.value);
-                        if(selectedLang) setTargetLanguage(selectedLang);
-                    }}
+                    id="provider"
+                    value={providerId}
+                    onChange={(e) => setProviderId(e.target.value as ProviderId)}
                     className="w-full p-2 text-white bg-gray-800 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-400 focus:outline-none"
                     disabled={isLoading}
                 >
-                    {SUPPORTED_LANGUAGES.map(lang => (
-                        <option key={lang.code} value={lang.code}>{lang.name}</option>
+                    {TRANSLATION_PROVIDERS.map(p => (
+                        <option key={p.id} value={p.id}>
+                            {p.name}{p.isConfigured() ? '' : ' (not configured)'}
+                        </option>
                     ))}
                 </select>
             </div>
+            <LanguagePicker
+              id="source-language"
+              label="Translate from"
+              value={sourceLanguage}
+              onChange={setSourceLanguage}
+              disabled={isLoading}
+              isAutoDetect={isAutoDetect}
+              onAutoDetectChange={(on) => { setIsAutoDetect(on); setDetection(null); }}
+              detection={detection}
+            />
+            <LanguagePicker
+              id="target-language"
+              label="Translate to"
+              value={targetLanguage}
+              onChange={setTargetLanguage}
+              disabled={isLoading}
+            />
             <button
-              onClick={handleTranslate}
-              disabled={isLoading || !sourceText.trim()}
+              onClick={isLoading ? handleCancel : handleTranslate}
+              disabled={!isLoading && !sourceText.trim()}
               className="w-full flex items-center justify-center gap-2 px-6 py-2 text-lg font-semibold text-gray-900 bg-cyan-400 rounded-md transition-all duration-300 ease-in-out hover:bg-cyan-300 disabled:bg-gray-600 disabled:cursor-not-allowed transform hover:scale-105 disabled:scale-100"
             >
               {isLoading ? (
                 <>
                   <LoadingSpinner className="w-6 h-6 animate-spin" />
-                  Translating...
+                  Cancel
                 </>
               ) : (
                 <>
@@ -191,21 +600,122 @@ const App: React.FC = () => {
             </button>
           </div>
 
-          {error && <div className="p-4 text-center text-red-300 bg-red-900/50 border border-red-500/50 rounded-lg">{error}</div>}
+          <div className="flex flex-wrap items-center justify-end gap-4 -mt-4 text-sm text-gray-300">
+            <label htmlFor="candidate-count" className="flex items-center gap-2">
+              Alternatives
+              <select
+                id="candidate-count"
+                value={candidateCount}
+                onChange={(e) => setCandidateCount(Number(e.target.value))}
+                className="p-1 text-white bg-gray-800 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-400 focus:outline-none"
+                disabled={isLoading}
+              >
+                {CANDIDATE_COUNT_OPTIONS.map(n => (
+                  <option key={n} value={n}>{n === 0 ? 'Off' : n}</option>
+                ))}
+              </select>
+            </label>
+            <label htmlFor="audience" className="flex items-center gap-2" title="Write the translation for an audience profile">
+              Audience
+              <select
+                id="audience"
+                value={audienceProfiles.some(p => p.id === audienceId) ? audienceId : ''}
+                onChange={(e) => setAudienceId(e.target.value)}
+                className="p-1 text-white bg-gray-800 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-400 focus:outline-none"
+                disabled={isLoading}
+              >
+                <option value="">Any</option>
+                {audienceProfiles.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            </label>
+            <label htmlFor="sample-count" className="flex items-center gap-2" title="Score each text several times and show the spread">
+              Samples
+              <select
+                id="sample-count"
+                value={sampleCount}
+                onChange={(e) => setSampleCount(Number(e.target.value))}
+                className="p-1 text-white bg-gray-800 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-400 focus:outline-none"
+                disabled={isLoading}
+              >
+                {SAMPLE_COUNT_OPTIONS.map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+            {sampleCount > 1 && (
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={varyTemperature}
+                  onChange={(e) => setVaryTemperature(e.target.checked)}
+                  className="accent-cyan-400"
+                  disabled={isLoading}
+                />
+                Vary temperature
+              </label>
+            )}
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isLiveAnalysis}
+                onChange={(e) => setIsLiveAnalysis(e.target.checked)}
+                className="accent-cyan-400"
+              />
+              Live tone analysis
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer" title="Score both texts with the offline lexicon scorer for comparison">
+              <input
+                type="checkbox"
+                checked={showBaseline}
+                onChange={(e) => setShowBaseline(e.target.checked)}
+                className="accent-cyan-400"
+              />
+              Lexicon baseline
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={bypassCache}
+                onChange={(e) => setBypassCache(e.target.checked)}
+                className="accent-cyan-400"
+              />
+              Bypass cache
+            </label>
+            <button
+              onClick={() => clearResponseCache()}
+              className="px-2 py-1 text-gray-300 border border-gray-600 rounded-md hover:bg-white/10"
+            >
+              Clear cache
+            </button>
+          </div>
+
+          {error && (
+            <ErrorBanner
+              error={error}
+              providerName={provider.name}
+              onRetry={retryAction ? () => { setError(null); retryAction(); } : undefined}
+              onDismiss={() => setError(null)}
+            />
+          )}
 
           <div className="flex flex-col gap-4">
             <TextAreaWithSentiment
               id="source-text"
-              label={`Original Text (${sourceLanguage.name})`}
+              label={`Original Text (${isAutoDetect && !detection ? (sourceGuess ? `${sourceGuess.language.name}, guessed` : 'language detected when translating') : sourceLanguage.name})`}
               value={sourceText}
               onChange={handleSourceTextChange}
               placeholder="Enter text to translate..."
               sentiment={sourceSentiment}
               uiTranslations={uiTranslations}
+              isAnalyzing={liveSource.isAnalyzing}
               textStyle={sourceStyle}
+              baselineSentiment={sourceBaseline}
+              highlights={[...getSegmentHighlights(heatmapSegments, 'source'), ...getParticleHighlights(particles)]}
             />
 
-            {nuanceExplanation && !isLoading && (
+            {nuanceExplanation && (
               <div className="p-4 bg-yellow-900/30 border border-yellow-500/30 rounded-lg animate-fade-in">
                   <div className="flex items-center gap-2 mb-2">
                       <LightbulbIcon className="w-5 h-5 text-yellow-300" />
@@ -216,26 +726,134 @@ const App: React.FC = () => {
             )}
 
             {emojiSuggestion && !isLoading && (
-                <EmojiSuggestionBox 
+                <EmojiSuggestionBox
                     suggestion={emojiSuggestion}
-                    onEmojiClick={handleEmojiAdd}
+                    text={translatedText}
+                    currentSentiment={translatedSentiment}
+                    preview={emojiPreview}
+                    onPreview={setEmojiPreview}
+                    onInsert={handleEmojiInsert}
                 />
             )}
 
+            {segments.length > 0 && !isLoading && (
+              <label className="flex items-center justify-end gap-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showHeatmap}
+                  onChange={(e) => setShowHeatmap(e.target.checked)}
+                  className="accent-cyan-400"
+                />
+                Show sentence sentiment heatmap
+              </label>
+            )}
+
             <TextAreaWithSentiment
               id="translated-text"
-              label={`Translated Text (${targetLanguage.name})`}
+              label={`Translated Text (${translationTarget.name})`}
               value={translatedText}
-              readOnly
+              onChange={(e) => handleTranslationChange(e.target.value)}
+              readOnly={!modelOutput || isLoading || isRetranslating}
               placeholder="Translation will appear here..."
               sentiment={translatedSentiment}
               comparisonSentiment={sourceSentiment}
               uiTranslations={uiTranslations}
               isLoading={isLoading && !translatedText}
-              isAnalyzing={isTranslatedAnalyzing}
+              isAnalyzing={liveTranslation.isAnalyzing || isRetranslating || (isLoading && Boolean(translatedText))}
               textStyle={translatedStyle}
+              // Segment spans refer to the model's wording and would be misplaced in an edited text.
+              highlights={[
+                ...(isTranslationEdited ? [] : getSegmentHighlights(heatmapSegments, 'translation')),
+                ...getGlossaryHighlights(translatedText, sourceText, glossary),
+              ]}
+              targetSentiment={toneTarget}
+              onTargetChange={isRetranslating ? undefined : setToneTarget}
+              trajectory={trajectory}
+              additionalPoints={translationPoints}
+              baselineSentiment={translatedBaseline}
+              audience={translationAudience}
+              glossaryViolations={glossaryViolations}
             />
+
+            {isTranslationEdited && !isLoading && (
+              <TranslationDiff
+                parts={diffWords(modelOutput.text, translatedText, translationTarget.code)}
+                onRevert={() => handleTranslationChange(modelOutput.text)}
+              />
+            )}
+
+            {modelOutput && translatedText && !isLoading && (
+              <RoundTripCheck
+                provider={provider}
+                sourceText={sourceText}
+                sourceLanguage={translationSource}
+                targetLanguage={translationTarget}
+                translatedText={translatedText}
+                sourceSentiment={sourceSentiment}
+                requestOptions={requestOptions}
+                disabled={isRetranslating}
+              />
+            )}
+
+            {report && !isLoading && <ExportMenu report={report} />}
+
+            {candidates.length > 0 && !isLoading && (
+              <CandidateList
+                candidates={candidates}
+                selectedTranslation={translatedText}
+                onSelect={handleCandidateSelect}
+              />
+            )}
+
+            {toneTarget && translatedText && !isLoading && (
+              <ToneTargetControls
+                target={toneTarget}
+                onTargetChange={setToneTarget}
+                onRetranslate={handleRetranslate}
+                onReset={handleToneReset}
+                isRetranslating={isRetranslating}
+              />
+            )}
           </div>
+
+          <HistoryPanel
+            refreshKey={historyVersion}
+            onRestore={handleHistoryRestore}
+            disabled={isLoading || isRetranslating}
+          />
+
+          <FanOutPanel
+            provider={provider}
+            sourceText={sourceText}
+            sourceLanguage={sourceLanguage}
+            defaultTargets={[targetLanguage]}
+            requestOptions={requestOptions}
+          />
+
+          <ThreadPanel
+            provider={provider}
+            defaultSourceLanguage={sourceLanguage}
+            targetLanguage={targetLanguage}
+            requestOptions={requestOptions}
+          />
+
+          <BatchPanel
+            provider={provider}
+            sourceLanguage={sourceLanguage}
+            targetLanguage={targetLanguage}
+          />
+
+          <EmojiLexiconPanel onChange={handleLexiconChange} />
+
+          <GlossaryPanel
+            sourceLanguage={effectiveSourceLanguage}
+            targetLanguage={targetLanguage}
+            onChange={() => setGlossaryVersion(v => v + 1)}
+          />
+
+          <AudienceProfilePanel onChange={() => setAudienceProfiles(getAudienceProfiles())} />
+
+          <SettingsPanel provider={provider} />
         </main>
       </div>
     </div>
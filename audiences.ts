@@ -0,0 +1,131 @@
+import type { AudienceProfile, EmojiPolicy, HonorificLevel } from './types';
+
+const CUSTOM_AUDIENCES_STORAGE_KEY = 'sentiment-translator:audiences';
+
+export const BUILT_IN_AUDIENCE_PROFILES: AudienceProfile[] = [
+  {
+    id: 'korean-elder',
+    name: 'Korean elder (jondaetmal)',
+    formality: { min: 65, max: 100 },
+    intimacy: { min: 20, max: 60 },
+    honorifics: 'honorific',
+    emojiPolicy: 'none',
+    notes: 'Use jondaetmal with honorific verb forms (-시-) and respectful terms of address, warm but deferential.',
+    isBuiltIn: true,
+  },
+  {
+    id: 'japanese-business',
+    name: 'Japanese business (keigo)',
+    formality: { min: 75, max: 100 },
+    intimacy: { min: 0, max: 35 },
+    honorifics: 'honorific',
+    emojiPolicy: 'none',
+    notes: 'Use keigo: sonkeigo for the reader, kenjōgo for the writer, and set business phrases.',
+    isBuiltIn: true,
+  },
+  {
+    id: 'customer-support',
+    name: 'Customer support',
+    formality: { min: 50, max: 80 },
+    intimacy: { min: 30, max: 65 },
+    honorifics: 'polite',
+    emojiPolicy: 'sparing',
+    notes: 'Friendly and reassuring, never curt.',
+    isBuiltIn: true,
+  },
+  {
+    id: 'close-friend',
+    name: 'Close friend (casual)',
+    formality: { min: 0, max: 35 },
+    intimacy: { min: 65, max: 100 },
+    honorifics: 'casual',
+    emojiPolicy: 'encouraged',
+    notes: 'Use banmal, plain forms, slang and contractions as a friend would.',
+    isBuiltIn: true,
+  },
+];
+
+const readCustomAudiences = (): AudienceProfile[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_AUDIENCES_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+let customAudiences: AudienceProfile[] = typeof localStorage === 'undefined' ? [] : readCustomAudiences();
+
+const saveCustomAudiences = () => {
+  try {
+    localStorage.setItem(CUSTOM_AUDIENCES_STORAGE_KEY, JSON.stringify(customAudiences));
+  } catch (error) {
+    console.warn("Could not save audience profiles:", error);
+  }
+};
+
+/**
+ * Lists every audience profile: the built-in ones, then those added by the user.
+ * @returns The profiles.
+ */
+export const getAudienceProfiles = (): AudienceProfile[] => [...BUILT_IN_AUDIENCE_PROFILES, ...customAudiences];
+
+/**
+ * Looks up an audience profile.
+ * @param id The profile id.
+ * @returns The profile, or undefined if there is none with this id.
+ */
+export const getAudienceProfile = (id: string): AudienceProfile | undefined => getAudienceProfiles().find(p => p.id === id);
+
+const isValidRange = ({ min, max }: { min: number; max: number }) =>
+  Number.isFinite(min) && Number.isFinite(max) && min >= 0 && max <= 100 && min <= max;
+
+const HONORIFIC_LEVELS: HonorificLevel[] = ['casual', 'polite', 'honorific'];
+const EMOJI_POLICIES: EmojiPolicy[] = ['none', 'sparing', 'encouraged'];
+
+/**
+ * Checks a profile that comes from outside the app, e.g. from a shared link.
+ * @param value The value to check.
+ * @returns Whether it has an id, a name, valid ranges and known honorific and emoji settings.
+ */
+export const isAudienceProfile = (value: unknown): value is AudienceProfile => {
+  const profile = value as Partial<AudienceProfile> | null;
+  return (
+    typeof profile?.id === 'string' &&
+    typeof profile.name === 'string' &&
+    typeof profile.formality === 'object' && profile.formality !== null && isValidRange(profile.formality) &&
+    typeof profile.intimacy === 'object' && profile.intimacy !== null && isValidRange(profile.intimacy) &&
+    HONORIFIC_LEVELS.includes(profile.honorifics!) &&
+    EMOJI_POLICIES.includes(profile.emojiPolicy!) &&
+    (profile.notes === undefined || typeof profile.notes === 'string')
+  );
+};
+
+/**
+ * Adds an audience profile. The list is kept in localStorage.
+ * @param profile The profile, without an id.
+ * @returns The saved profile.
+ * @throws Error if the name is empty or a range is outside 0-100 or inverted.
+ */
+export const addCustomAudienceProfile = (profile: Omit<AudienceProfile, 'id' | 'isBuiltIn'>): AudienceProfile => {
+  const name = profile.name.trim();
+  if (!name) {
+    throw new Error("An audience profile needs a name.");
+  }
+  if (!isValidRange(profile.formality) || !isValidRange(profile.intimacy)) {
+    throw new Error("Ranges must lie between 0 and 100, with the minimum no larger than the maximum.");
+  }
+  const saved: AudienceProfile = { ...profile, name, notes: profile.notes?.trim() || undefined, id: crypto.randomUUID() };
+  customAudiences = [...customAudiences, saved];
+  saveCustomAudiences();
+  return saved;
+};
+
+/**
+ * Removes a profile the user added; built-in profiles cannot be removed.
+ * @param id The profile id.
+ */
+export const removeCustomAudienceProfile = (id: string): void => {
+  customAudiences = customAudiences.filter(p => p.id !== id);
+  saveCustomAudiences();
+};
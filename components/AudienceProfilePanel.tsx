@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import type { AudienceProfile, EmojiPolicy, HonorificLevel } from '../types';
+import { addCustomAudienceProfile, getAudienceProfiles, removeCustomAudienceProfile } from '../audiences';
+import { TrashIcon } from './icons';
+
+interface AudienceProfilePanelProps {
+  onChange?: () => void; // Called after a profile is added or removed
+}
+
+const HONORIFIC_LABELS: Record<HonorificLevel, string> = {
+  casual: 'Casual',
+  polite: 'Polite',
+  honorific: 'Honorific',
+};
+
+const EMOJI_POLICY_LABELS: Record<EmojiPolicy, string> = {
+  none: 'No emojis',
+  sparing: 'Sparing emojis',
+  encouraged: 'Emojis welcome',
+};
+
+const EMPTY_DRAFT: Omit<AudienceProfile, 'id' | 'isBuiltIn'> = {
+  name: '',
+  formality: { min: 0, max: 100 },
+  intimacy: { min: 0, max: 100 },
+  honorifics: 'polite',
+  emojiPolicy: 'sparing',
+  notes: '',
+};
+
+const inputClassName = 'p-1 text-white bg-gray-800 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-400 focus:outline-none';
+
+const RangeInputs: React.FC<{
+  label: string;
+  range: { min: number; max: number };
+  onChange: (range: { min: number; max: number }) => void;
+}> = ({ label, range, onChange }) => (
+  <div role="group" aria-label={label} className="flex items-center gap-1 text-sm text-gray-300">
+    {label}
+    <input
+      type="number"
+      min={0}
+      max={100}
+      value={range.min}
+      onChange={(e) => onChange({ ...range, min: Number(e.target.value) })}
+      className={`w-16 ${inputClassName}`}
+      aria-label={`${label} minimum`}
+    />
+    –
+    <input
+      type="number"
+      min={0}
+      max={100}
+      value={range.max}
+      onChange={(e) => onChange({ ...range, max: Number(e.target.value) })}
+      className={`w-16 ${inputClassName}`}
+      aria-label={`${label} maximum`}
+    />
+  </div>
+);
+
+export const AudienceProfilePanel: React.FC<AudienceProfilePanelProps> = ({ onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [profiles, setProfiles] = useState<AudienceProfile[]>(getAudienceProfiles);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    setProfiles(getAudienceProfiles());
+    onChange?.();
+  };
+
+  const handleAdd = () => {
+    try {
+      addCustomAudienceProfile(draft);
+      setDraft(EMPTY_DRAFT);
+      setError(null);
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add the profile.');
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    removeCustomAudienceProfile(id);
+    refresh();
+  };
+
+  return (
+    <section className="p-4 bg-white/5 rounded-lg border border-cyan-500/30">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 w-full text-left font-semibold text-cyan-200"
+        aria-expanded={isOpen}
+      >
+        Audience Profiles
+        <span className="ml-auto text-sm text-gray-400">{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 flex flex-col gap-4 animate-fade-in">
+          <p className="text-sm text-gray-400">
+            A profile describes who a translation is for: the formality and intimacy it should land in, the speech level and
+            whether emojis fit. Pick one under <em>Audience</em> before translating; its range is drawn on the translation's map.
+          </p>
+
+          <ul className="flex flex-col gap-2">
+            {profiles.map(profile => (
+              <li key={profile.id} className="flex flex-wrap items-center gap-3 p-2 text-sm bg-gray-800/60 rounded-md">
+                <span className="font-semibold text-cyan-200">{profile.name}</span>
+                <span className="text-gray-400">
+                  formality {profile.formality.min}–{profile.formality.max} · intimacy {profile.intimacy.min}–{profile.intimacy.max} ·{' '}
+                  {HONORIFIC_LABELS[profile.honorifics]} · {EMOJI_POLICY_LABELS[profile.emojiPolicy]}
+                </span>
+                {profile.isBuiltIn ? (
+                  <span className="ml-auto text-xs text-gray-500">Built-in</span>
+                ) : (
+                  <button
+                    onClick={() => handleRemove(profile.id)}
+                    className="ml-auto p-1 text-gray-400 rounded hover:text-red-300 hover:bg-white/10"
+                    aria-label={`Remove the ${profile.name} profile`}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Profile name"
+              className={`w-56 ${inputClassName}`}
+              aria-label="Profile name"
+            />
+            <RangeInputs label="Formality" range={draft.formality} onChange={(formality) => setDraft({ ...draft, formality })} />
+            <RangeInputs label="Intimacy" range={draft.intimacy} onChange={(intimacy) => setDraft({ ...draft, intimacy })} />
+            <select
+              value={draft.honorifics}
+              onChange={(e) => setDraft({ ...draft, honorifics: e.target.value as HonorificLevel })}
+              className={inputClassName}
+              aria-label="Speech level"
+            >
+              {Object.entries(HONORIFIC_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            <select
+              value={draft.emojiPolicy}
+              onChange={(e) => setDraft({ ...draft, emojiPolicy: e.target.value as EmojiPolicy })}
+              className={inputClassName}
+              aria-label="Emoji policy"
+            >
+              {Object.entries(EMOJI_POLICY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <input
+              value={draft.notes ?? ''}
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+              placeholder="Notes for the translator (optional)"
+              className={`flex-1 min-w-[16rem] text-sm ${inputClassName}`}
+              aria-label="Notes"
+            />
+            <button
+              onClick={handleAdd}
+              disabled={!draft.name.trim()}
+              className="px-3 py-1.5 text-sm font-semibold text-gray-900 bg-cyan-400 rounded-md hover:bg-cyan-300 disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+              Add profile
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-300">{error}</p>}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import type { SentimentScore } from '../types';
+import { LEXICON_SCORER_VERSION } from '../lexiconSentiment';
+import { formatDelta } from './formatting';
+
+interface BaselineComparisonProps {
+  baseline: SentimentScore;
+  sentiment?: SentimentScore | null; // The model's score, if there is one to compare against
+}
+
+export const BaselineComparison: React.FC<BaselineComparisonProps> = ({ baseline, sentiment }) => {
+  const axes = [
+    { name: 'Sentiment', value: baseline.score, delta: sentiment && sentiment.score - baseline.score, digits: 2 },
+    { name: 'Intimacy', value: baseline.intimacy, delta: sentiment && sentiment.intimacy - baseline.intimacy, digits: 0 },
+    { name: 'Formality', value: baseline.formality, delta: sentiment && sentiment.formality - baseline.formality, digits: 0 },
+  ];
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs text-gray-400"
+      title={`Offline lexicon scorer v${LEXICON_SCORER_VERSION}. Deltas are the model's score minus the baseline.`}
+    >
+      <span className="font-semibold text-gray-300">Lexicon baseline</span>
+      {axes.map(axis => (
+        <span key={axis.name}>
+          {axis.name} {axis.value.toFixed(axis.digits)}
+          {axis.delta !== null && axis.delta !== undefined && (
+            <span className="ml-1 text-cyan-300">(model {formatDelta(axis.delta, axis.digits)})</span>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+};
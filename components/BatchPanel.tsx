@@ -0,0 +1,186 @@
+import React, { useState, useRef } from 'react';
+import type { BatchJob, Language, TranslationProvider } from '../types';
+import {
+  parseCorpus,
+  createOrResumeBatchJob,
+  runBatchJob,
+  serializeBatchResultsCsv,
+  serializeBatchResultsJsonl,
+} from '../services/batchService';
+import { getProvider } from '../services/providers';
+import { downloadTextFile } from '../download';
+import { LoadingSpinner } from './icons';
+
+interface BatchPanelProps {
+  provider: TranslationProvider;
+  sourceLanguage: Language;
+  targetLanguage: Language;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 5];
+const MAX_RETRIES = 2;
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({ provider, sourceLanguage, targetLanguage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [concurrency, setConcurrency] = useState(2);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const rows = parseCorpus(file.name, await file.text());
+      setJob(await createOrResumeBatchJob(file.name, rows, provider, sourceLanguage, targetLanguage));
+    } catch (err) {
+      console.error("Error loading corpus:", err);
+      setError(err instanceof Error ? err.message : 'Could not read the corpus file.');
+      setJob(null);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!job) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    try {
+      await runBatchJob(job, {
+        concurrency,
+        maxRetries: MAX_RETRIES,
+        signal: controller.signal,
+        // The runner updates the job in place; copy it so React re-renders.
+        onRowComplete: () => setJob({ ...job, results: { ...job.results } }),
+      });
+    } catch (err) {
+      // The other workers would keep translating rows that can no longer be saved.
+      controller.abort();
+      console.error("Error running batch:", err);
+      setError('The batch stopped unexpectedly. Progress so far has been saved.');
+    } finally {
+      setIsRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const handlePause = () => abortRef.current?.abort();
+
+  const handleDownload = (format: 'csv' | 'jsonl') => {
+    if (!job) return;
+    const baseName = job.fileName.replace(/\.[^.]+$/, '');
+    if (format === 'csv') {
+      downloadTextFile(`${baseName}.results.csv`, serializeBatchResultsCsv(job), 'text/csv');
+    } else {
+      downloadTextFile(`${baseName}.results.jsonl`, serializeBatchResultsJsonl(job), 'application/x-ndjson');
+    }
+  };
+
+  const results = job ? Object.values(job.results) : [];
+  const doneCount = results.filter(r => r.status === 'done').length;
+  const errorCount = results.filter(r => r.status === 'error').length;
+  const total = job?.rows.length ?? 0;
+  const remaining = total - doneCount;
+
+  return (
+    <section className="p-4 bg-white/5 rounded-lg border border-cyan-500/30">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 w-full text-left font-semibold text-cyan-200"
+        aria-expanded={isOpen}
+      >
+        Batch Corpus
+        <span className="ml-auto text-sm text-gray-400">{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 flex flex-col gap-4 animate-fade-in">
+          <p className="text-sm text-gray-400">
+            Upload a CSV (with a header row), JSONL or JSON (an array of objects) file. Each row's <code>text</code> column is translated
+            from {sourceLanguage.name} to {targetLanguage.name} using {provider.name}.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <input
+              type="file"
+              accept=".csv,.jsonl,.ndjson,.json"
+              onChange={handleFileChange}
+              disabled={isRunning}
+              className="text-sm text-gray-300 file:mr-3 file:px-3 file:py-1.5 file:rounded-md file:border-0 file:bg-gray-700 file:text-cyan-200"
+            />
+            <label htmlFor="batch-concurrency" className="flex items-center gap-2 text-sm text-gray-300">
+              Parallel requests
+              <select
+                id="batch-concurrency"
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                disabled={isRunning}
+                className="p-1 text-white bg-gray-800 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-400 focus:outline-none"
+              >
+                {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+          </div>
+
+          {error && <p className="text-sm text-red-300">{error}</p>}
+
+          {job && (
+            <>
+              <div>
+                <div className="flex justify-between mb-1 text-xs text-gray-300">
+                  <span>
+                    {job.fileName} · {getProvider(job.providerId).name}, {job.sourceLanguage.name} → {job.targetLanguage.name}
+                  </span>
+                  <span>
+                    {doneCount} / {total} done{errorCount > 0 && ` · ${errorCount} failed`}
+                  </span>
+                </div>
+                <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={total} aria-valuenow={doneCount}>
+                  <div className="h-full bg-cyan-400 transition-all duration-300" style={{ width: `${total ? (doneCount / total) * 100 : 0}%` }} />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap justify-end gap-2">
+                {isRunning ? (
+                  <button
+                    onClick={handlePause}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-200 border border-gray-600 rounded-md hover:bg-white/10"
+                  >
+                    <LoadingSpinner className="w-4 h-4 animate-spin" />
+                    Pause
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleRun}
+                    disabled={remaining === 0}
+                    className="px-3 py-1.5 text-sm font-semibold text-gray-900 bg-cyan-400 rounded-md hover:bg-cyan-300 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                  >
+                    {results.length === 0 ? 'Start' : errorCount > 0 && remaining === errorCount ? 'Retry failed' : 'Resume'}
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDownload('csv')}
+                  disabled={results.length === 0}
+                  className="px-3 py-1.5 text-sm text-gray-200 border border-gray-600 rounded-md hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Download CSV
+                </button>
+                <button
+                  onClick={() => handleDownload('jsonl')}
+                  disabled={results.length === 0}
+                  className="px-3 py-1.5 text-sm text-gray-200 border border-gray-600 rounded-md hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Download JSONL
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import type { RankedCandidate } from '../types';
+
+interface CandidateListProps {
+  candidates: RankedCandidate[];
+  selectedTranslation: string;
+  onSelect: (candidate: RankedCandidate) => void;
+}
+
+export const CandidateList: React.FC<CandidateListProps> = ({ candidates, selectedTranslation, onSelect }) => {
+  return (
+    <div className="p-4 bg-white/5 border border-cyan-500/30 rounded-lg animate-fade-in">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-cyan-200">Alternative Translations</h3>
+        <p className="text-xs text-gray-400">Ranked by sentiment fidelity to the original</p>
+      </div>
+      <ol className="flex flex-col gap-2">
+        {candidates.map((candidate, i) => {
+          const isSelected = candidate.translation === selectedTranslation;
+          const { score, intimacy, formality } = candidate.sentiment;
+          return (
+            <li key={`${candidate.strategy}-${i}`}>
+              <button
+                onClick={() => onSelect(candidate)}
+                aria-pressed={isSelected}
+                className={`w-full text-left p-3 rounded-md border transition-colors ${
+                  isSelected ? 'border-cyan-400 bg-cyan-900/30' : 'border-white/10 hover:bg-white/10'
+                }`}
+              >
+                <div className="flex items-center gap-2 mb-1 text-xs">
+                  <span className="font-mono text-cyan-300">{i + 1}</span>
+                  <span className="bg-gray-700 text-cyan-200 font-semibold px-2 py-0.5 rounded-full">{candidate.strategy}</span>
+                  <span className="ml-auto font-mono text-gray-400">
+                    gap {(candidate.distance * 100).toFixed(0)}% · s {score.toFixed(2)} · i {Math.round(intimacy)} · f {Math.round(formality)}
+                  </span>
+                </div>
+                <p className="text-gray-100">{candidate.translation}</p>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
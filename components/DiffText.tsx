@@ -0,0 +1,18 @@
+import React from 'react';
+import type { DiffPart } from '../types';
+
+const PART_CLASSES: Record<DiffPart['type'], string> = {
+  equal: 'text-gray-300',
+  added: 'text-green-200 bg-green-700/40 rounded-sm',
+  removed: 'text-red-200 bg-red-800/40 line-through rounded-sm',
+};
+
+export const DiffText: React.FC<{ parts: DiffPart[] }> = ({ parts }) => (
+  <p className="text-lg whitespace-pre-wrap break-words">
+    {parts.map((part, i) => (
+      <span key={i} className={PART_CLASSES[part.type]}>
+        {part.text}
+      </span>
+    ))}
+  </p>
+);
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import type { EmojiLexicon } from '../types';
+import { getLanguageName, getLanguages } from '../languages';
+import { DEFAULT_EMOJI_LEXICON, getCustomEmojiLexicons, parseEmojiLexicon, setCustomEmojiLexicon } from '../emoji';
+import { TrashIcon } from './icons';
+
+interface EmojiLexiconPanelProps {
+  onChange?: () => void; // Called after a custom lexicon is loaded or removed
+}
+
+export const EmojiLexiconPanel: React.FC<EmojiLexiconPanelProps> = ({ onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [languageCode, setLanguageCode] = useState(() => getLanguages()[0].code);
+  const [customLexicons, setCustomLexicons] = useState<Record<string, EmojiLexicon>>(getCustomEmojiLexicons);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (code: string, lexicon: EmojiLexicon | null) => {
+    setCustomEmojiLexicon(code, lexicon);
+    setCustomLexicons(getCustomEmojiLexicons());
+    onChange?.();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update(languageCode, parseEmojiLexicon(JSON.parse(await file.text()), file.name.replace(/\.json$/i, '')));
+      setError(null);
+    } catch (err) {
+      console.error("Error loading emoji lexicon:", err);
+      setError(err instanceof SyntaxError ? 'The file is not valid JSON.' : err instanceof Error ? err.message : 'Could not read the lexicon.');
+    }
+  };
+
+  return (
+    <section className="p-4 bg-white/5 rounded-lg border border-cyan-500/30">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 w-full text-left font-semibold text-cyan-200"
+        aria-expanded={isOpen}
+      >
+        Emoji Lexicons
+        <span className="ml-auto text-sm text-gray-400">{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 flex flex-col gap-4 animate-fade-in">
+          <p className="text-sm text-gray-400">
+            By default emojis are matched against {DEFAULT_EMOJI_LEXICON.name} ({DEFAULT_EMOJI_LEXICON.entries.length} emojis).
+            Load a JSON lexicon to use different emojis for texts in one language or culture. Each entry needs an{' '}
+            <code>emoji</code> and either a <code>score</code> or <code>occurrences</code>/<code>negative</code>/<code>neutral</code>/<code>positive</code> counts,
+            plus optional <code>intimacy</code> and <code>formality</code> (0–100).
+          </p>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <label htmlFor="lexicon-language" className="flex items-center gap-2 text-sm text-gray-300">
+              Language
+              <select
+                id="lexicon-language"
+                value={languageCode}
+                onChange={(e) => setLanguageCode(e.target.value)}
+                className="p-1 text-white bg-gray-800 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-400 focus:outline-none"
+              >
+                {getLanguages().map(lang => <option key={lang.code} value={lang.code}>{lang.name}</option>)}
+              </select>
+            </label>
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+              className="text-sm text-gray-300 file:mr-3 file:px-3 file:py-1.5 file:rounded-md file:border-0 file:bg-gray-700 file:text-cyan-200"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-300">{error}</p>}
+
+          {Object.keys(customLexicons).length > 0 && (
+            <ul className="flex flex-col gap-2">
+              {Object.entries(customLexicons).map(([code, lexicon]) => (
+                <li key={code} className="flex items-center gap-3 p-2 text-sm bg-gray-800/60 rounded-md">
+                  <span className="font-semibold text-cyan-200">{getLanguageName(code)}</span>
+                  <span className="text-gray-300 truncate">{lexicon.name}</span>
+                  <span className="text-gray-500">{lexicon.entries.length} emojis</span>
+                  <button
+                    onClick={() => update(code, null)}
+                    className="ml-auto p-1 text-gray-400 rounded hover:text-red-300 hover:bg-white/10"
+                    aria-label={`Remove the ${getLanguageName(code)} lexicon`}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -1,13 +1,91 @@
 import React from 'react';
-import type { EmojiSuggestion } from '../types';
+import type { EmojiSuggestion, EmojiPlacement, SentimentScore } from '../types';
+import { findEmojiInsertionPoint, insertEmoji } from '../emoji';
 import { SparklesIcon } from './icons';
 
 interface EmojiSuggestionBoxProps {
   suggestion: EmojiSuggestion;
-  onEmojiClick: (emoji: string) => void;
+  text: string; // The current translation the emojis would be inserted into
+  currentSentiment?: SentimentScore | null;
+  preview: EmojiPlacement | null;
+  onPreview: (placement: EmojiPlacement | null) => void;
+  onInsert: (emoji: string, position: number) => void;
 }
 
-export const EmojiSuggestionBox: React.FC<EmojiSuggestionBoxProps> = ({ suggestion, onEmojiClick }) => {
+const formatDelta = (value: number, current: number | undefined, digits: number) => {
+  if (current === undefined) return value.toFixed(digits);
+  const delta = value - current;
+  return `${value.toFixed(digits)} (${delta >= 0 ? '+' : ''}${delta.toFixed(digits)})`;
+};
+
+const EmojiPreview: React.FC<{
+  placement: EmojiPlacement;
+  text: string;
+  currentSentiment?: SentimentScore | null;
+  onInsert: (emoji: string, position: number) => void;
+  onCancel: () => void;
+}> = ({ placement, text, currentSentiment, onInsert, onCancel }) => {
+  const position = findEmojiInsertionPoint(text, placement.after);
+  const previewText = insertEmoji(text, placement.emoji, position);
+  const emojiIndex = previewText.indexOf(placement.emoji, position);
+  const isAtEnd = position === text.length;
+  const predicted = placement.predictedSentiment;
+
+  return (
+    <div className="mt-3 p-3 bg-gray-900/50 border border-teal-500/30 rounded-md">
+      <p className="text-xs text-gray-400 mb-1">
+        {isAtEnd ? 'At the end' : <>After &ldquo;{placement.after}&rdquo;</>}
+      </p>
+      <p className="text-gray-100 whitespace-pre-wrap break-words">
+        {previewText.slice(0, emojiIndex)}
+        <mark className="bg-teal-500/40 text-inherit rounded-sm">{placement.emoji}</mark>
+        {previewText.slice(emojiIndex + placement.emoji.length)}
+      </p>
+      {predicted && (
+        <p className="mt-2 text-xs text-gray-300">
+          Predicted: sentiment {formatDelta(predicted.score, currentSentiment?.score, 2)}
+          {' · '}intimacy {formatDelta(predicted.intimacy, currentSentiment?.intimacy, 0)}
+          {' · '}formality {formatDelta(predicted.formality, currentSentiment?.formality, 0)}
+        </p>
+      )}
+      <div className="flex flex-wrap justify-end gap-2 mt-3">
+        <button
+          onClick={onCancel}
+          className="px-2 py-1 text-sm text-gray-300 border border-gray-600 rounded-md hover:bg-white/10"
+        >
+          Cancel
+        </button>
+        {!isAtEnd && (
+          <button
+            onClick={() => onInsert(placement.emoji, text.length)}
+            className="px-2 py-1 text-sm text-gray-300 border border-gray-600 rounded-md hover:bg-white/10"
+          >
+            Insert at end
+          </button>
+        )}
+        <button
+          onClick={() => onInsert(placement.emoji, position)}
+          className="px-2 py-1 text-sm font-semibold text-gray-900 bg-teal-400 rounded-md hover:bg-teal-300"
+        >
+          Insert
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const EmojiSuggestionBox: React.FC<EmojiSuggestionBoxProps> = ({
+  suggestion,
+  text,
+  currentSentiment,
+  preview,
+  onPreview,
+  onInsert,
+}) => {
+  // Suggestions without a recommended placement (e.g. from older history entries) go at the end.
+  const placementFor = (emoji: string): EmojiPlacement =>
+    suggestion.placements?.find(p => p.emoji === emoji) ?? { emoji, after: '' };
+
   return (
     <div className="p-4 bg-teal-900/40 border border-teal-500/30 rounded-lg animate-fade-in">
       <div className="flex items-center gap-2 mb-2">
@@ -20,14 +98,24 @@ export const EmojiSuggestionBox: React.FC<EmojiSuggestionBoxProps> = ({ suggesti
         {suggestion.emojis.map((emoji) => (
           <button
             key={emoji}
-            onClick={() => onEmojiClick(emoji)}
-            className="text-2xl rounded-full p-1 transition-transform duration-200 ease-in-out hover:scale-125 hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-teal-400"
-            aria-label={`Add ${emoji} emoji`}
+            onClick={() => onPreview(preview?.emoji === emoji ? null : placementFor(emoji))}
+            className={`text-2xl rounded-full p-1 transition-transform duration-200 ease-in-out hover:scale-125 hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-teal-400 ${preview?.emoji === emoji ? 'bg-white/10 scale-110' : ''}`}
+            aria-label={`Preview ${emoji} emoji`}
+            aria-pressed={preview?.emoji === emoji}
           >
             {emoji}
           </button>
         ))}
       </div>
+      {preview && (
+        <EmojiPreview
+          placement={preview}
+          text={text}
+          currentSentiment={currentSentiment}
+          onInsert={onInsert}
+          onCancel={() => onPreview(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,79 @@
+import React from 'react';
+import type { TranslatorError, TranslatorErrorKind } from '../services/errors';
+
+interface ErrorBannerProps {
+  error: TranslatorError;
+  providerName: string;
+  onRetry?: () => void;
+  onDismiss: () => void;
+}
+
+const ERROR_DESCRIPTIONS: Record<TranslatorErrorKind, { title: string; hint: (provider: string) => string }> = {
+  auth: {
+    title: 'Authentication failed',
+    hint: provider => `The ${provider} API key is missing or was rejected. Check your .env.local file or switch provider.`,
+  },
+  'rate-limit': {
+    title: 'Quota or rate limit reached',
+    hint: provider => `${provider} is refusing further requests for now. Wait a moment before retrying, or switch provider.`,
+  },
+  safety: {
+    title: 'Blocked by safety filters',
+    hint: provider => `${provider} declined to process this text. Rephrasing it or switching provider may help.`,
+  },
+  network: {
+    title: 'Connection problem',
+    hint: provider => `${provider} could not be reached or is temporarily unavailable. Check your connection and retry.`,
+  },
+  timeout: {
+    title: 'Request timed out',
+    hint: provider => `${provider} took too long to answer. Retrying usually helps; shorter texts answer faster.`,
+  },
+  malformed: {
+    title: 'Unusable response',
+    hint: () => 'The model returned a response that could not be used, even after asking it to correct itself.',
+  },
+  cancelled: {
+    title: 'Request cancelled',
+    hint: () => 'The request was cancelled before it finished.',
+  },
+  unknown: {
+    title: 'Something went wrong',
+    hint: () => 'An unexpected error occurred.',
+  },
+};
+
+export const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, providerName, onRetry, onDismiss }) => {
+  const { title, hint } = ERROR_DESCRIPTIONS[error.kind];
+
+  return (
+    <div role="alert" className="p-4 text-red-200 bg-red-900/50 border border-red-500/50 rounded-lg animate-fade-in">
+      <div className="flex flex-wrap items-start gap-4">
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-red-100">{title}</h3>
+          <p className="mt-1 text-sm">{hint(providerName)}</p>
+          <details className="mt-2 text-xs text-red-300/80">
+            <summary className="cursor-pointer">Details</summary>
+            <p className="mt-1 break-words font-mono">{error.message}</p>
+          </details>
+        </div>
+        <div className="flex gap-2">
+          {onRetry && (
+            <button
+              onClick={onRetry}
+              className="px-3 py-1.5 text-sm font-semibold text-gray-900 bg-red-300 rounded-md hover:bg-red-200"
+            >
+              Retry
+            </button>
+          )}
+          <button
+            onClick={onDismiss}
+            className="px-3 py-1.5 text-sm text-red-200 border border-red-500/50 rounded-md hover:bg-white/10"
+          >
+            Dismiss
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
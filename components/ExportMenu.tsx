@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import type { TranslationReport } from '../types';
+import { getShareUrl, renderReportMarkdown, renderSentimentMapSvg, renderSvgAsPng } from '../report';
+import { downloadBlob, downloadTextFile } from '../download';
+
+interface ExportMenuProps {
+  report: TranslationReport;
+}
+
+const BUTTON_CLASS = 'px-2 py-1 text-sm text-gray-300 border border-gray-600 rounded-md hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed';
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ report }) => {
+  const [status, setStatus] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const baseName = `translation-${report.sourceLanguage.code}-${report.targetLanguage.code}-${new Date(report.createdAt).toISOString().slice(0, 10)}`;
+  const mapSvg = () => renderSentimentMapSvg(report.response.sourceSentiment, report.response.translatedSentiment, report.response.uiTranslations);
+
+  const run = async (action: () => Promise<string | null>) => {
+    setIsWorking(true);
+    setStatus(null);
+    try {
+      setStatus(await action());
+    } catch (err) {
+      console.error("Error exporting the report:", err);
+      setStatus(err instanceof Error ? err.message : "The export failed.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePng = () => run(async () => {
+    downloadBlob(`${baseName}-map.png`, await renderSvgAsPng(mapSvg()));
+    return null;
+  });
+
+  const handleShare = () => run(async () => {
+    const url = await getShareUrl(report);
+    await navigator.clipboard.writeText(url);
+    return `Link copied (${url.length.toLocaleString()} characters). Anyone with it can view this result read-only.`;
+  });
+
+  return (
+    <div className="p-4 bg-white/5 border border-cyan-500/30 rounded-lg">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="mr-auto font-semibold text-cyan-200">Export</h3>
+        <button
+          onClick={() => downloadTextFile(`${baseName}.json`, JSON.stringify(report, null, 2), 'application/json')}
+          className={BUTTON_CLASS}
+        >
+          JSON
+        </button>
+        <button
+          onClick={() => downloadTextFile(`${baseName}.md`, renderReportMarkdown(report), 'text/markdown')}
+          className={BUTTON_CLASS}
+        >
+          Markdown
+        </button>
+        <button onClick={() => downloadTextFile(`${baseName}-map.svg`, mapSvg(), 'image/svg+xml')} className={BUTTON_CLASS}>
+          Map (SVG)
+        </button>
+        <button onClick={handlePng} disabled={isWorking} className={BUTTON_CLASS}>
+          Map (PNG)
+        </button>
+        <button
+          onClick={handleShare}
+          disabled={isWorking}
+          className="px-3 py-1.5 text-sm font-semibold text-gray-900 bg-cyan-400 rounded-md hover:bg-cyan-300 disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          Copy share link
+        </button>
+      </div>
+      {status && <p className="mt-2 text-xs text-gray-400">{status}</p>}
+    </div>
+  );
+};
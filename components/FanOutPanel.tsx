@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import type { FanOutResult, Language, PlotPoint, RequestOptions, SentimentScore, TranslationProvider } from '../types';
+import { getLanguages } from '../languages';
+import { getGlossary, selectGlossaryEntries } from '../glossary';
+import { getEmojiForSentiment } from '../emoji';
+import { aggregateSentimentSamples } from '../sentiment';
+import { classifyError } from '../services/errors';
+import { SentimentVisualizer } from './SentimentVisualizer';
+import { LoadingSpinner } from './icons';
+import { formatDelta } from './formatting';
+
+interface FanOutPanelProps {
+  provider: TranslationProvider;
+  sourceText: string;
+  sourceLanguage: Language;
+  defaultTargets: Language[];
+  requestOptions?: RequestOptions;
+}
+
+type Axis = 'score' | 'intimacy' | 'formality';
+
+/**
+ * Finds the target whose axis dropped furthest below the source, e.g. the one that lost the most warmth.
+ * @returns The language code, or null if no target is below the source on that axis.
+ */
+const findLargestLoss = (results: FanOutResult[], source: SentimentScore, axis: Axis): string | null => {
+  const losses = results
+    .filter(r => r.response && r.response.translatedSentiment[axis] < source[axis])
+    .map(r => ({ code: r.language.code, loss: source[axis] - r.response!.translatedSentiment[axis] }));
+  return losses.length ? losses.reduce((a, b) => (b.loss > a.loss ? b : a)).code : null;
+};
+
+const FanOutCard: React.FC<{ result: FanOutResult; source: SentimentScore | null }> = ({ result, source }) => {
+  const { language, response } = result;
+  const sentiment = response?.translatedSentiment;
+  const styleLabel = response && (response.translatedStyle === 'SPOKEN' ? response.uiTranslations.spoken : response.uiTranslations.written);
+
+  return (
+    <article className="flex flex-col gap-2 p-3 bg-gray-800/60 rounded-md">
+      <header className="flex items-center gap-2">
+        <h3 className="font-semibold text-cyan-200">{language.name}</h3>
+        {sentiment && <span className="text-xl" aria-hidden="true">{getEmojiForSentiment(sentiment, language.code)}</span>}
+        {styleLabel && (
+          <span className="ml-auto inline-block bg-gray-700 text-cyan-200 text-xs font-semibold px-2.5 py-1 rounded-full">{styleLabel}</span>
+        )}
+        {result.status === 'running' && <LoadingSpinner className="ml-auto w-4 h-4 animate-spin text-cyan-400" />}
+      </header>
+
+      {result.status === 'error' && <p className="text-sm text-red-300">{result.error}</p>}
+
+      {response && sentiment && (
+        <>
+          <p className="text-gray-100 whitespace-pre-wrap break-words">{response.translation}</p>
+          <p className="text-xs text-gray-400">
+            Sentiment {sentiment.score.toFixed(2)} · Intimacy {sentiment.intimacy} · Formality {sentiment.formality}
+            {source && (
+              <span className="ml-1 text-cyan-300" title="Change in sentiment / intimacy / formality compared with the original">
+                (vs. original {formatDelta(sentiment.score - source.score, 2)} / {formatDelta(sentiment.intimacy - source.intimacy, 0)} / {formatDelta(sentiment.formality - source.formality, 0)})
+              </span>
+            )}
+          </p>
+          {response.nuance && <p className="text-sm text-yellow-100/80">{response.nuance}</p>}
+        </>
+      )}
+    </article>
+  );
+};
+
+export const FanOutPanel: React.FC<FanOutPanelProps> = ({ provider, sourceText, sourceLanguage, defaultTargets, requestOptions }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedCodes, setSelectedCodes] = useState<string[]>(() => defaultTargets.map(l => l.code));
+  const [results, setResults] = useState<FanOutResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const targets = getLanguages().filter(l => l.code !== sourceLanguage.code && selectedCodes.includes(l.code));
+
+  const toggleTarget = (code: string) =>
+    setSelectedCodes(codes => (codes.includes(code) ? codes.filter(c => c !== code) : [...codes, code]));
+
+  const handleRun = async () => {
+    if (!sourceText.trim() || targets.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setResults(targets.map(language => ({ language, status: 'running' })));
+
+    const update = (code: string, result: Partial<FanOutResult>) =>
+      setResults(prev => prev.map(r => (r.language.code === code ? { ...r, ...result } : r)));
+
+    // Every target fails or succeeds on its own, so one refusal does not hide the other translations.
+    await Promise.all(targets.map(async language => {
+      try {
+        const glossary = selectGlossaryEntries(sourceText, getGlossary(sourceLanguage.code, language.code));
+        const response = await provider.getTranslationAndSentiment(
+          sourceText, sourceLanguage.code, language.name, { ...requestOptions, signal: controller.signal, glossary }
+        );
+        if (!controller.signal.aborted) update(language.code, { status: 'done', response });
+      } catch (err) {
+        const translatorError = classifyError(err);
+        if (translatorError.kind !== 'cancelled') console.error(`Error translating to ${language.name}:`, err);
+        update(language.code, { status: 'error', error: translatorError.kind === 'cancelled' ? 'Cancelled.' : translatorError.message });
+      }
+    }));
+
+    if (abortRef.current === controller) abortRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  const completed = results.filter(r => r.response);
+  // Each request scores the source on its own; their mean is a steadier reference than any single one.
+  const sourceScore = completed.length ? aggregateSentimentSamples(completed.map(r => r.response!.sourceSentiment)) : null;
+  const sourceSentiment = sourceScore && { ...sourceScore, emoji: getEmojiForSentiment(sourceScore, sourceLanguage.code) };
+  const targetPoints: PlotPoint[] = completed.map(r => ({
+    id: r.language.code,
+    label: r.language.name,
+    sentiment: r.response!.translatedSentiment,
+  }));
+  const intimacyLoss = sourceScore && findLargestLoss(results, sourceScore, 'intimacy');
+  const formalityLoss = sourceScore && findLargestLoss(results, sourceScore, 'formality');
+
+  return (
+    <section className="p-4 bg-white/5 rounded-lg border border-cyan-500/30">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 w-full text-left font-semibold text-cyan-200"
+        aria-expanded={isOpen}
+      >
+        Multi-target Comparison
+        <span className="ml-auto text-sm text-gray-400">{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 flex flex-col gap-4 animate-fade-in">
+          <p className="text-sm text-gray-400">
+            Translate the original {sourceLanguage.name} text into several languages at once and compare how much
+            sentiment, intimacy and formality each one keeps.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {getLanguages().filter(l => l.code !== sourceLanguage.code).map(lang => (
+              <label
+                key={lang.code}
+                className={`flex items-center gap-1.5 px-2.5 py-1 text-sm rounded-full border cursor-pointer ${
+                  selectedCodes.includes(lang.code) ? 'border-cyan-400 bg-cyan-400/10 text-cyan-100' : 'border-gray-600 text-gray-300'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedCodes.includes(lang.code)}
+                  onChange={() => toggleTarget(lang.code)}
+                  disabled={isRunning}
+                  className="accent-cyan-400"
+                />
+                {lang.name}
+              </label>
+            ))}
+            {isRunning ? (
+              <button
+                onClick={handleCancel}
+                className="ml-auto flex items-center gap-2 px-3 py-1.5 text-sm text-gray-200 border border-gray-600 rounded-md hover:bg-white/10"
+              >
+                <LoadingSpinner className="w-4 h-4 animate-spin" />
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                disabled={!sourceText.trim() || targets.length === 0}
+                className="ml-auto px-3 py-1.5 text-sm font-semibold text-gray-900 bg-cyan-400 rounded-md hover:bg-cyan-300 disabled:bg-gray-600 disabled:cursor-not-allowed"
+              >
+                Translate to {targets.length} {targets.length === 1 ? 'language' : 'languages'}
+              </button>
+            )}
+          </div>
+
+          {sourceSentiment && (
+            <div className="flex items-center gap-3 text-sm text-gray-300">
+              <div className="relative w-10 h-10">
+                <SentimentVisualizer sentiment={sourceSentiment} additionalPoints={targetPoints} />
+              </div>
+              <span>
+                Open the map to see the original (filled dot) and every translation (labelled by language code).
+                {intimacyLoss && <> Most warmth lost: <strong className="text-cyan-200">{targetPoints.find(p => p.id === intimacyLoss)?.label}</strong>.</>}
+                {formalityLoss && <> Most formality lost: <strong className="text-cyan-200">{targetPoints.find(p => p.id === formalityLoss)?.label}</strong>.</>}
+              </span>
+            </div>
+          )}
+
+          {results.length > 0 && (
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              {results.map(result => (
+                <FanOutCard key={result.language.code} result={result} source={sourceScore} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import type { Language } from '../types';
+import {
+  createGlossaryEntry,
+  getGlossary,
+  isDoNotTranslate,
+  mergeGlossaryEntries,
+  parseGlossaryCsv,
+  parseGlossaryTbx,
+  setGlossary,
+} from '../glossary';
+import { TrashIcon } from './icons';
+
+interface GlossaryPanelProps {
+  sourceLanguage: Language;
+  targetLanguage: Language;
+  onChange?: () => void; // Called after the glossary of the pair changes
+}
+
+const inputClassName = 'p-1 text-white bg-gray-800 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-400 focus:outline-none';
+
+export const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ sourceLanguage, targetLanguage, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [version, setVersion] = useState(0);
+  const [term, setTerm] = useState('');
+  const [translation, setTranslation] = useState('');
+  const [notes, setNotes] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const entries = useMemo(
+    () => getGlossary(sourceLanguage.code, targetLanguage.code),
+    [sourceLanguage, targetLanguage, version]
+  );
+
+  const update = (next: typeof entries) => {
+    setGlossary(sourceLanguage.code, targetLanguage.code, next);
+    setVersion(v => v + 1);
+    onChange?.();
+  };
+
+  const handleAdd = () => {
+    update(mergeGlossaryEntries(entries, [createGlossaryEntry(term, translation, notes, caseSensitive)]));
+    setTerm('');
+    setTranslation('');
+    setNotes('');
+    setCaseSensitive(false);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const text = await file.text();
+      const imported = /\.(tbx|xml)$/i.test(file.name)
+        ? parseGlossaryTbx(text, sourceLanguage.code, targetLanguage.code)
+        : parseGlossaryCsv(text);
+      update(mergeGlossaryEntries(entries, imported));
+      setError(null);
+    } catch (err) {
+      console.error("Error importing glossary:", err);
+      setError(err instanceof Error ? err.message : 'Could not read the glossary.');
+    }
+  };
+
+  return (
+    <section className="p-4 bg-white/5 rounded-lg border border-cyan-500/30">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 w-full text-left font-semibold text-cyan-200"
+        aria-expanded={isOpen}
+      >
+        Glossary
+        {entries.length > 0 && <span className="text-sm font-normal text-gray-400">({entries.length} terms)</span>}
+        <span className="ml-auto text-sm text-gray-400">{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 flex flex-col gap-4 animate-fade-in">
+          <p className="text-sm text-gray-400">
+            Terms for {sourceLanguage.name} → {targetLanguage.name}. Terms that occur in the text are sent with every translation
+            request, and the translation is checked for them. Leave the translation empty to keep a term as is, e.g. a product name.
+            Import a CSV with <code>term</code>, <code>translation</code>, <code>notes</code> and <code>case_sensitive</code> columns,
+            or a TBX file.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+            <input value={term} onChange={(e) => setTerm(e.target.value)} placeholder="Term" className={`w-40 ${inputClassName}`} aria-label="Term" />
+            <input
+              value={translation}
+              onChange={(e) => setTranslation(e.target.value)}
+              placeholder="Translation (empty: keep)"
+              className={`w-48 ${inputClassName}`}
+              aria-label="Required translation"
+            />
+            <input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Notes" className={`flex-1 min-w-[10rem] ${inputClassName}`} aria-label="Notes" />
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} className="accent-cyan-400" />
+              Match case
+            </label>
+            <button
+              onClick={handleAdd}
+              disabled={!term.trim()}
+              className="px-3 py-1.5 text-sm font-semibold text-gray-900 bg-cyan-400 rounded-md hover:bg-cyan-300 disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+              Add
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <input
+              type="file"
+              accept=".csv,.tbx,.xml,text/csv,application/xml"
+              onChange={handleFileChange}
+              className="text-sm text-gray-300 file:mr-3 file:px-3 file:py-1.5 file:rounded-md file:border-0 file:bg-gray-700 file:text-cyan-200"
+            />
+            {entries.length > 0 && (
+              <button
+                onClick={() => update([])}
+                className="ml-auto px-3 py-1.5 text-sm text-gray-200 border border-gray-600 rounded-md hover:bg-white/10"
+              >
+                Clear glossary
+              </button>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-red-300">{error}</p>}
+
+          {entries.length > 0 && (
+            <ul className="flex flex-col gap-2 max-h-64 overflow-y-auto">
+              {entries.map(entry => (
+                <li key={entry.id} className="flex items-center gap-3 p-2 text-sm bg-gray-800/60 rounded-md">
+                  <span className="font-semibold text-cyan-200">{entry.term}</span>
+                  <span className="text-gray-300">→ {isDoNotTranslate(entry) ? <em className="text-gray-400">keep as is</em> : entry.translation}</span>
+                  {entry.caseSensitive && <span className="text-xs text-gray-500" title="Case-sensitive">Aa</span>}
+                  {entry.notes && <span className="text-gray-500 truncate">{entry.notes}</span>}
+                  <button
+                    onClick={() => update(entries.filter(e => e.id !== entry.id))}
+                    className="ml-auto p-1 text-gray-400 rounded hover:text-red-300 hover:bg-white/10"
+                    aria-label={`Remove "${entry.term}"`}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import type { TextHighlight } from '../types';
+
+interface HighlightOverlayProps {
+  text: string;
+  highlights: TextHighlight[];
+  overlayRef: React.RefObject<HTMLDivElement>;
+}
+
+/**
+ * Splits the text at every highlight boundary and wraps each piece in the
+ * highlights covering it, outermost (longest) first, so overlapping ranges nest.
+ */
+const renderHighlightedText = (text: string, highlights: TextHighlight[]): React.ReactNode[] => {
+  const bounds = [...new Set([
+    0,
+    text.length,
+    ...highlights.flatMap(h => [h.start, h.end]),
+  ])]
+    .filter(b => b >= 0 && b <= text.length)
+    .sort((a, b) => a - b);
+
+  const pieces: React.ReactNode[] = [];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const start = bounds[i];
+    const end = bounds[i + 1];
+    const covering = highlights
+      .filter(h => h.start <= start && h.end >= end)
+      .sort((a, b) => (b.end - b.start) - (a.end - a.start));
+    const piece = covering.reduceRight<React.ReactNode>((child, h) => (
+      <mark
+        className="rounded-sm text-transparent"
+        style={{ backgroundColor: h.color }}
+        data-tooltip={h.tooltip}
+      >
+        {child}
+      </mark>
+    ), text.slice(start, end));
+    pieces.push(<React.Fragment key={start}>{piece}</React.Fragment>);
+  }
+  return pieces;
+};
+
+/**
+ * Finds the tooltip of the innermost highlight under a point. The marks let every
+ * pointer event through to the textarea, so that clicks still place the caret, and
+ * the textarea shows the tooltip of whatever mark the pointer is over instead.
+ * @param overlay The overlay element.
+ * @param x The pointer's x coordinate in the viewport.
+ * @param y The pointer's y coordinate in the viewport.
+ * @returns The tooltip, or undefined if no highlight with one is under the point.
+ */
+export const findHighlightTooltip = (overlay: HTMLElement, x: number, y: number): string | undefined => {
+  const hits = [...overlay.querySelectorAll<HTMLElement>('mark[data-tooltip]')].filter(mark =>
+    [...mark.getClientRects()].some(r => x >= r.left && x <= r.right && y >= r.top && y <= r.bottom)
+  );
+  // Nested marks come after their parents in document order.
+  return hits[hits.length - 1]?.dataset.tooltip;
+};
+
+/**
+ * Mirrors a textarea's text with transparent glyphs so that highlighted
+ * ranges line up exactly with the characters typed underneath.
+ * It must use the same padding, border and font size as the textarea it covers.
+ */
+export const HighlightOverlay: React.FC<HighlightOverlayProps> = ({ text, highlights, overlayRef }) => {
+  return (
+    <div
+      ref={overlayRef}
+      aria-hidden="true"
+      className="absolute inset-0 p-4 pr-20 text-lg text-transparent border border-transparent rounded-lg overflow-hidden whitespace-pre-wrap break-words pointer-events-none"
+    >
+      {renderHighlightedText(text, highlights)}
+      {/* Keeps a trailing newline from collapsing, matching the textarea's height. */}
+      {'\u200b'}
+    </div>
+  );
+};
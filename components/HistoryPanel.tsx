@@ -0,0 +1,133 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { HistoryEntry } from '../types';
+import { listHistoryEntries, deleteHistoryEntry, setHistoryFavorite, matchesHistoryQuery } from '../services/historyStore';
+import { HistoryIcon, StarIcon, TrashIcon } from './icons';
+
+interface HistoryPanelProps {
+  refreshKey: number; // Bump to reload entries after the app saves a new one
+  onRestore: (entry: HistoryEntry) => void;
+  disabled?: boolean;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ refreshKey, onRestore, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(await listHistoryEntries());
+      setError(null);
+    } catch (e) {
+      console.error("Error loading history:", e);
+      setError('History is unavailable in this browser.');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadEntries();
+    }
+  }, [isOpen, refreshKey, loadEntries]);
+
+  const handleFavorite = async (entry: HistoryEntry) => {
+    try {
+      await setHistoryFavorite(entry.id, !entry.isFavorite);
+      loadEntries();
+    } catch (e) {
+      console.error("Error updating history:", e);
+      setError('The favorite could not be saved.');
+    }
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    try {
+      await deleteHistoryEntry(entry.id);
+      loadEntries();
+    } catch (e) {
+      console.error("Error deleting from history:", e);
+      setError('The entry could not be deleted.');
+    }
+  };
+
+  const visibleEntries = entries.filter(e => (!favoritesOnly || e.isFavorite) && matchesHistoryQuery(e, query));
+
+  return (
+    <section className="p-4 bg-white/5 rounded-lg border border-cyan-500/30">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 w-full text-left font-semibold text-cyan-200"
+        aria-expanded={isOpen}
+      >
+        <HistoryIcon className="w-5 h-5" />
+        History
+        <span className="ml-auto text-sm text-gray-400">{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 flex flex-col gap-3 animate-fade-in">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search texts, nuance or languages..."
+              className="flex-1 min-w-[12rem] p-2 text-sm text-white bg-gray-800 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-400 focus:outline-none"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={favoritesOnly}
+                onChange={(e) => setFavoritesOnly(e.target.checked)}
+                className="accent-cyan-400"
+              />
+              Favorites only
+            </label>
+          </div>
+
+          {error && <p className="text-sm text-red-300">{error}</p>}
+          {!error && visibleEntries.length === 0 && (
+            <p className="text-sm text-gray-400">No saved translations yet.</p>
+          )}
+
+          <ul className="flex flex-col gap-2 max-h-96 overflow-y-auto">
+            {visibleEntries.map(entry => (
+              <li key={entry.id} className="flex items-start gap-3 p-3 rounded-md border border-white/10 hover:bg-white/5">
+                <span className="text-2xl" aria-hidden="true">{entry.translatedSentiment.emoji}</span>
+                <button
+                  onClick={() => onRestore(entry)}
+                  disabled={disabled}
+                  className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+                  title="Restore into the editor"
+                >
+                  <div className="text-xs text-gray-400">
+                    {new Date(entry.timestamp).toLocaleString()} · {entry.sourceLanguage.name} → {entry.targetLanguage.name}
+                    {entry.generation && ` · ${entry.generation.model}, prompt v${entry.generation.promptVersions.translation}`}
+                  </div>
+                  <p className="text-sm text-gray-100 truncate">{entry.sourceText}</p>
+                  <p className="text-sm text-cyan-100/80 truncate">{entry.translatedText}</p>
+                </button>
+                <button
+                  onClick={() => handleFavorite(entry)}
+                  className={`p-1 rounded hover:bg-white/10 ${entry.isFavorite ? 'text-yellow-300' : 'text-gray-500'}`}
+                  aria-label={entry.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                >
+                  <StarIcon className="w-5 h-5" filled={entry.isFavorite} />
+                </button>
+                <button
+                  onClick={() => handleDelete(entry)}
+                  className="p-1 rounded text-gray-500 hover:text-red-300 hover:bg-white/10"
+                  aria-label="Delete from history"
+                >
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
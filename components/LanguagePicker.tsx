@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import type { Language, LanguageDetection } from '../types';
+import { addCustomLanguage, isCustomLanguage, normalizeLanguageTag, removeCustomLanguage, searchLanguages, toLanguage } from '../languages';
+import { useOnClickOutside } from '../hooks/useOnClickOutside';
+import { TrashIcon } from './icons';
+
+interface LanguagePickerProps {
+  id: string;
+  label: string;
+  value: Language;
+  onChange: (language: Language) => void;
+  disabled?: boolean;
+  // Offered for the source language only: the language is detected from the text when translating.
+  isAutoDetect?: boolean;
+  onAutoDetectChange?: (isAutoDetect: boolean) => void;
+  detection?: LanguageDetection | null;
+}
+
+export const LanguagePicker: React.FC<LanguagePickerProps> = ({
+  id,
+  label,
+  value,
+  onChange,
+  disabled,
+  isAutoDetect,
+  onAutoDetectChange,
+  detection,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  // Bumped when the custom list changes, since it lives outside React state.
+  const [, setVersion] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useOnClickOutside(containerRef, () => setIsOpen(false));
+
+  const matches = searchLanguages(query);
+  // A tag that is not in the list yet can be added right from the search box. Words such as
+  // "english" are well-formed tags too, so only tags the browser can name are offered.
+  const newTag = normalizeLanguageTag(query);
+  const candidate = newTag && !matches.some(l => l.code === newTag) ? toLanguage(newTag) : null;
+  const newLanguage = candidate && candidate.name !== candidate.code ? candidate : null;
+
+  const close = () => {
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  const select = (language: Language) => {
+    onAutoDetectChange?.(false);
+    onChange(language);
+    close();
+  };
+
+  const handleAdd = (tag: string) => select(addCustomLanguage(tag));
+
+  const handleRemove = (code: string) => {
+    removeCustomLanguage(code);
+    setVersion(v => v + 1);
+  };
+
+  const buttonLabel = isAutoDetect
+    ? detection
+      ? `${detection.language.name} (detected, ${Math.round(detection.confidence * 100)}%)`
+      : 'Auto-detect'
+    : value.name;
+
+  return (
+    <div ref={containerRef} className="relative w-full">
+      {/* The button names itself after the label and its current value, so no <label> is used. */}
+      <span id={`${id}-label`} className="block mb-1 text-sm font-medium text-cyan-200">{label}</span>
+      <button
+        id={id}
+        aria-labelledby={`${id}-label ${id}`}
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+        className="w-full p-2 text-left text-white truncate bg-gray-800 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-400 focus:outline-none disabled:opacity-60"
+      >
+        {buttonLabel}
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-20 w-64 mt-1 bg-gray-800 border border-gray-600 rounded-md shadow-xl">
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') close();
+              if (e.key === 'Enter' && matches.length > 0) select(matches[0]);
+              else if (e.key === 'Enter' && newLanguage) handleAdd(newLanguage.code);
+            }}
+            placeholder="Search or type a tag, e.g. pt-BR"
+            className="w-full p-2 text-sm text-white bg-gray-900 border-b border-gray-600 rounded-t-md focus:outline-none"
+          />
+          <ul role="listbox" className="overflow-y-auto max-h-64">
+            {onAutoDetectChange && !query && (
+              <li>
+                <button
+                  onClick={() => { onAutoDetectChange(true); close(); }}
+                  className={`w-full px-3 py-1.5 text-sm text-left hover:bg-white/10 ${isAutoDetect ? 'text-cyan-300' : 'text-gray-200'}`}
+                >
+                  Auto-detect
+                </button>
+              </li>
+            )}
+            {matches.map(lang => (
+              <li key={lang.code} className="flex items-center">
+                <button
+                  role="option"
+                  aria-selected={!isAutoDetect && lang.code === value.code}
+                  onClick={() => select(lang)}
+                  className={`flex-1 px-3 py-1.5 text-sm text-left hover:bg-white/10 ${!isAutoDetect && lang.code === value.code ? 'text-cyan-300' : 'text-gray-200'}`}
+                >
+                  {lang.name} <span className="text-xs text-gray-500">{lang.code}</span>
+                </button>
+                {isCustomLanguage(lang.code) && (
+                  <button
+                    onClick={() => handleRemove(lang.code)}
+                    className="p-1 mr-1 text-gray-500 rounded hover:text-red-300 hover:bg-white/10"
+                    aria-label={`Remove ${lang.name}`}
+                  >
+                    <TrashIcon className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </li>
+            ))}
+            {newLanguage && (
+              <li>
+                <button
+                  onClick={() => handleAdd(newLanguage.code)}
+                  className="w-full px-3 py-1.5 text-sm text-left text-cyan-200 hover:bg-white/10"
+                >
+                  Add {newLanguage.name} ({newLanguage.code})
+                </button>
+              </li>
+            )}
+            {matches.length === 0 && !newLanguage && (
+              <li className="px-3 py-1.5 text-sm text-gray-500">No match. Type a BCP-47 tag to add a language.</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
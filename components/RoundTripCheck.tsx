@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react';
+import type { Language, RequestOptions, RoundTripFlag, RoundTripResult, SentimentScore, TranslationProvider } from '../types';
+import { ROUND_TRIP_THRESHOLDS } from '../constants';
+import { assessRoundTrip } from '../sentiment';
+import { diffWords } from '../diff';
+import { classifyError } from '../services/errors';
+import { DiffText } from './DiffText';
+import { LoadingSpinner } from './icons';
+import { formatDelta } from './formatting';
+
+interface RoundTripCheckProps {
+  provider: TranslationProvider;
+  sourceText: string;
+  sourceLanguage: Language;
+  targetLanguage: Language;
+  translatedText: string;
+  sourceSentiment: SentimentScore | null; // Scored again if not known yet
+  requestOptions?: RequestOptions;
+  disabled?: boolean;
+}
+
+const FLAG_MESSAGES: Record<RoundTripFlag, string> = {
+  polarity: 'Polarity flipped: the back-translation leans the other way.',
+  sentiment: `Sentiment drifted by more than ${ROUND_TRIP_THRESHOLDS.score}.`,
+  formality: `Formality drifted by more than ${ROUND_TRIP_THRESHOLDS.formality} points.`,
+};
+
+export const RoundTripCheck: React.FC<RoundTripCheckProps> = ({
+  provider,
+  sourceText,
+  sourceLanguage,
+  targetLanguage,
+  translatedText,
+  sourceSentiment,
+  requestOptions,
+  disabled,
+}) => {
+  const [result, setResult] = useState<RoundTripResult | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleCheck = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const options = { ...requestOptions, signal: controller.signal };
+    setIsChecking(true);
+    setError(null);
+
+    try {
+      const [back, original] = await Promise.all([
+        provider.getTranslationAndSentiment(translatedText, targetLanguage.code, sourceLanguage.name, options),
+        sourceSentiment ?? provider.getSentiment(sourceText, options),
+      ]);
+      if (controller.signal.aborted) return;
+      setResult({
+        translation: translatedText,
+        backTranslation: back.translation,
+        sourceSentiment: original,
+        backSentiment: back.translatedSentiment,
+        flags: assessRoundTrip(original, back.translatedSentiment, ROUND_TRIP_THRESHOLDS),
+      });
+    } catch (err) {
+      const translatorError = classifyError(err);
+      if (translatorError.kind === 'cancelled') return;
+      console.error("Error checking the round trip:", err);
+      setError(translatorError.message);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsChecking(false);
+      }
+    }
+  };
+
+  // A result describes the wording it was made for; after an edit it has to be checked again.
+  const current = result?.translation === translatedText ? result : null;
+
+  return (
+    <div className="p-4 bg-white/5 border border-cyan-500/30 rounded-lg">
+      <div className="flex items-center gap-2">
+        <h3 className="font-semibold text-cyan-200">Round-trip check</h3>
+        <span className="text-xs text-gray-400">
+          {targetLanguage.name} → {sourceLanguage.name}
+        </span>
+        <button
+          onClick={handleCheck}
+          disabled={disabled || isChecking || !translatedText.trim()}
+          className="flex items-center gap-2 ml-auto px-2 py-1 text-sm text-gray-300 border border-gray-600 rounded-md hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isChecking && <LoadingSpinner className="w-4 h-4 animate-spin" />}
+          {current ? 'Check again' : 'Back-translate'}
+        </button>
+      </div>
+
+      {error && <p className="mt-2 text-sm text-red-300">{error}</p>}
+
+      {current && (
+        <div className="flex flex-col gap-3 mt-3 animate-fade-in">
+          {current.flags.length > 0 ? (
+            <ul className="flex flex-col gap-1">
+              {current.flags.map(flag => (
+                <li key={flag} className="px-2 py-1 text-sm text-amber-100 bg-amber-900/40 border border-amber-500/30 rounded-md">
+                  {FLAG_MESSAGES[flag]}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-green-200">The round trip kept the original's polarity and formality.</p>
+          )}
+
+          <p className="text-xs text-gray-400">
+            Back-translation: sentiment {current.backSentiment.score.toFixed(2)} · intimacy {current.backSentiment.intimacy} · formality {current.backSentiment.formality}
+            <span className="ml-1 text-cyan-300">
+              (vs. original {formatDelta(current.backSentiment.score - current.sourceSentiment.score, 2)} / {formatDelta(current.backSentiment.intimacy - current.sourceSentiment.intimacy, 0)} / {formatDelta(current.backSentiment.formality - current.sourceSentiment.formality, 0)})
+            </span>
+          </p>
+
+          <div>
+            <p className="mb-1 text-xs text-gray-400">Differences from the original</p>
+            <DiffText parts={diffWords(sourceText, current.backTranslation, sourceLanguage.code)} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React from 'react';
+import type { SentimentScore } from '../types';
+
+interface TimelinePoint {
+  label: string; // Shown under the axis, e.g. the speaker
+  source?: SentimentScore;
+  translation?: SentimentScore;
+}
+
+interface SentimentTimelineProps {
+  points: TimelinePoint[];
+  sourceLabel: string;
+  translationLabel: string;
+}
+
+type Axis = 'score' | 'intimacy' | 'formality';
+
+const METRICS: { axis: Axis; label: string; min: number; max: number }[] = [
+  { axis: 'score', label: 'Sentiment', min: -1, max: 1 },
+  { axis: 'intimacy', label: 'Intimacy', min: 0, max: 100 },
+  { axis: 'formality', label: 'Formality', min: 0, max: 100 },
+];
+
+const SOURCE_COLOR = '#67e8f9';
+const TRANSLATION_COLOR = '#f0abfc';
+
+// A single message sits in the middle; otherwise the messages span the width with a margin.
+const xFor = (index: number, count: number) => (count < 2 ? 50 : 4 + (index / (count - 1)) * 92);
+
+const Series: React.FC<{
+  points: TimelinePoint[];
+  side: 'source' | 'translation';
+  axis: Axis;
+  min: number;
+  max: number;
+}> = ({ points, side, axis, min, max }) => {
+  const color = side === 'source' ? SOURCE_COLOR : TRANSLATION_COLOR;
+  const plotted = points
+    .map((p, i) => ({ score: p[side], x: xFor(i, points.length), label: p.label }))
+    .filter((p): p is { score: SentimentScore; x: number; label: string } => Boolean(p.score))
+    .map(p => ({ ...p, y: 100 - ((p.score[axis] - min) / (max - min)) * 100 }));
+  return (
+    <>
+      <svg className="absolute inset-0 w-full h-full overflow-visible pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+        <polyline
+          points={plotted.map(p => `${p.x},${p.y}`).join(' ')}
+          fill="none"
+          stroke={color}
+          strokeWidth="1.5"
+          strokeDasharray={side === 'translation' ? '4 3' : undefined}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      {/* Dots are HTML so that they stay round on the stretched plot. */}
+      {plotted.map((p, i) => (
+        <div
+          key={i}
+          className="absolute w-2 h-2 rounded-full transform -translate-x-1/2 -translate-y-1/2"
+          style={{ left: `${p.x}%`, top: `${p.y}%`, backgroundColor: color }}
+          title={`${p.label}: ${axis === 'score' ? p.score[axis].toFixed(2) : Math.round(p.score[axis])}`}
+        />
+      ))}
+    </>
+  );
+};
+
+/**
+ * Plots how sentiment, intimacy and formality change from message to message,
+ * for the original (solid) and the translation (dashed).
+ */
+export const SentimentTimeline: React.FC<SentimentTimelineProps> = ({ points, sourceLabel, translationLabel }) => (
+  <div className="flex flex-col gap-3">
+    <div className="flex gap-4 text-xs text-gray-300">
+      <span className="flex items-center gap-1.5">
+        <span className="inline-block w-4 h-0.5" style={{ backgroundColor: SOURCE_COLOR }} />
+        {sourceLabel}
+      </span>
+      <span className="flex items-center gap-1.5">
+        <span className="inline-block w-4 border-t-2 border-dashed" style={{ borderColor: TRANSLATION_COLOR }} />
+        {translationLabel}
+      </span>
+    </div>
+    {METRICS.map(({ axis, label, min, max }) => (
+      <div key={axis} className="flex items-stretch gap-2">
+        <div className="flex flex-col justify-between w-16 text-[10px] text-right text-gray-500">
+          <span>{max}</span>
+          <span className="text-xs text-gray-300">{label}</span>
+          <span>{min}</span>
+        </div>
+        <div className="relative flex-1 h-16 border-l border-b border-white/20">
+          {/* The neutral line of the sentiment axis. */}
+          {axis === 'score' && <div className="absolute left-0 right-0 top-1/2 border-t border-white/10" />}
+          <Series points={points} side="source" axis={axis} min={min} max={max} />
+          <Series points={points} side="translation" axis={axis} min={min} max={max} />
+        </div>
+      </div>
+    ))}
+    <div className="relative h-4 ml-[4.5rem] text-[10px] text-gray-400">
+      {points.map((p, i) => (
+        <span
+          key={i}
+          className="absolute transform -translate-x-1/2 whitespace-nowrap max-w-[6rem] truncate"
+          style={{ left: `${xFor(i, points.length)}%` }}
+        >
+          {p.label}
+        </span>
+      ))}
+    </div>
+  </div>
+);
@@ -1,30 +1,44 @@
-import React, { useState, useRef, useEffect } from 'react';
-import type { Sentiment, UITranslations } from '../types';
+import React, { useState, useRef } from 'react';
+import type { Sentiment, SentimentScore, UITranslations, PlotPoint, ToneRange } from '../types';
+import { assessToneFit } from '../sentiment';
+import { useOnClickOutside } from '../hooks/useOnClickOutside';
 
 interface SentimentVisualizerProps {
   sentiment: Sentiment;
   comparisonSentiment?: Sentiment | null;
   uiTranslations?: UITranslations | null;
+  targetSentiment?: SentimentScore | null; // A tone the user is steering towards
+  onTargetChange?: (target: SentimentScore) => void; // Makes the map draggable when set
+  trajectory?: SentimentScore[]; // Earlier positions of this text, oldest first
+  additionalPoints?: PlotPoint[]; // Labelled extras, e.g. alternative translations
+  toneRange?: ToneRange | null; // A region the text should land in, e.g. an audience profile's
+  toneRangeLabel?: string;
 }
 
-const useOnClickOutside = <T extends HTMLElement,>(
-  ref: React.RefObject<T>,
-  handler: (event: MouseEvent | TouchEvent) => void
-) => {
-  useEffect(() => {
-    const listener = (event: MouseEvent | TouchEvent) => {
-      if (!ref.current || ref.current.contains(event.target as Node)) {
-        return;
-      }
-      handler(event);
-    };
-    document.addEventListener("mousedown", listener);
-    document.addEventListener("touchstart", listener);
-    return () => {
-      document.removeEventListener("mousedown", listener);
-      document.removeEventListener("touchstart", listener);
-    };
-  }, [ref, handler]);
+// One standard deviation of intimacy and formality around a sampled score; axis-aligned, as covariance is not tracked.
+// Everything plotted is placed with `bottom`, so moving it down by half its height centres it on its coordinate.
+const UncertaintyEllipse: React.FC<{ point: SentimentScore; color: string }> = ({ point, color }) => {
+    const { stdDev } = point.confidence!;
+    return (
+        <div
+            className="absolute rounded-full transform -translate-x-1/2 translate-y-1/2 pointer-events-none transition-all duration-500 ease-out"
+            style={{
+                bottom: `${point.intimacy}%`,
+                left: `${point.formality}%`,
+                width: `${2 * stdDev.formality}%`,
+                height: `${2 * stdDev.intimacy}%`,
+                border: `1px solid ${color}`,
+                backgroundColor: color,
+                opacity: 0.25,
+            }}
+        />
+    );
+};
+
+const describeConfidence = (point: SentimentScore) => {
+    if (!point.confidence || point.confidence.samples < 2) return '';
+    const { samples, stdDev } = point.confidence;
+    return `\n${samples} samples, ±1 SD: sentiment ${stdDev.score.toFixed(2)}, intimacy ${stdDev.intimacy.toFixed(1)}, formality ${stdDev.formality.toFixed(1)}`;
 };
 
 const SentimentPoint: React.FC<{ point: Sentiment; isComparison?: boolean }> = ({ point, isComparison }) => {
@@ -32,28 +46,119 @@ const SentimentPoint: React.FC<{ point: Sentiment; isComparison?: boolean }> = (
     const pointColor = `hsl(${120 * (point.score * 0.5 + 0.5)}, 80%, 60%)`;
     
     return (
+        <>
+        {point.confidence && point.confidence.samples > 1 && <UncertaintyEllipse point={point} color={pointColor} />}
         <div
-            className={`absolute w-3 h-3 rounded-full transform -translate-x-1/2 -translate-y-1/2 transition-all duration-500 ease-out`}
+            className={`absolute w-3 h-3 rounded-full transform -translate-x-1/2 translate-y-1/2 transition-all duration-500 ease-out`}
             style={{ 
                 bottom: `${point.intimacy}%`, 
                 left: `${point.formality}%`,
                 backgroundColor: isComparison ? 'transparent' : pointColor,
                 border: isComparison ? `2px solid ${pointColor}` : 'none',
             }}
-            title={`Sentiment: ${point.score.toFixed(2)}\nIntimacy: ${point.intimacy}\nFormality: ${point.formality}`}
+            title={`Sentiment: ${point.score.toFixed(2)}\nIntimacy: ${point.intimacy}\nFormality: ${point.formality}${describeConfidence(point)}`}
         >
              <div className="absolute inset-0 rounded-full" style={{boxShadow: `0 0 8px 1px ${pointColor}`}}></div>
         </div>
+        </>
     );
 }
 
 
-export const SentimentVisualizer: React.FC<SentimentVisualizerProps> = ({ sentiment, comparisonSentiment, uiTranslations }) => {
+const TargetMarker: React.FC<{ target: SentimentScore }> = ({ target }) => (
+    <div
+        className="absolute w-4 h-4 rounded-full border-2 border-dashed border-white/80 transform -translate-x-1/2 translate-y-1/2 pointer-events-none"
+        style={{ bottom: `${target.intimacy}%`, left: `${target.formality}%` }}
+        title={`Target\nSentiment: ${target.score.toFixed(2)}\nIntimacy: ${target.intimacy}\nFormality: ${target.formality}`}
+    />
+);
+
+// Green when the plotted text lies inside the region, amber when it misses it.
+const ToneRegion: React.FC<{ range: ToneRange; isInRange: boolean; label?: string }> = ({ range, isInRange, label }) => (
+    <div
+        className={`absolute border border-dashed rounded-sm ${isInRange ? 'border-emerald-300/70 bg-emerald-400/10' : 'border-amber-300/70 bg-amber-400/10'}`}
+        style={{
+            left: `${range.formality.min}%`,
+            width: `${range.formality.max - range.formality.min}%`,
+            bottom: `${range.intimacy.min}%`,
+            height: `${range.intimacy.max - range.intimacy.min}%`,
+        }}
+        title={`${label ?? 'Target range'}\nIntimacy: ${range.intimacy.min}–${range.intimacy.max}\nFormality: ${range.formality.min}–${range.formality.max}`}
+    />
+);
+
+const Trajectory: React.FC<{ points: SentimentScore[] }> = ({ points }) => (
+    <svg className="absolute inset-0 w-full h-full overflow-visible pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+        <polyline
+            points={points.map(p => `${p.formality},${100 - p.intimacy}`).join(' ')}
+            fill="none"
+            stroke="white"
+            strokeOpacity="0.5"
+            strokeWidth="1"
+            vectorEffect="non-scaling-stroke"
+        />
+        {points.slice(0, -1).map((p, i) => (
+            <circle key={i} cx={p.formality} cy={100 - p.intimacy} r="1.2" fill="white" fillOpacity="0.5" />
+        ))}
+    </svg>
+);
+
+const LabelledPoint: React.FC<{ point: PlotPoint }> = ({ point }) => {
+    const { sentiment } = point;
+    const pointColor = `hsl(${120 * (sentiment.score * 0.5 + 0.5)}, 80%, 60%)`;
+    return (
+        <div
+            className="absolute transform -translate-x-1/2 translate-y-1/2 pointer-events-auto"
+            style={{ bottom: `${sentiment.intimacy}%`, left: `${sentiment.formality}%` }}
+            title={`${point.label}\nSentiment: ${sentiment.score.toFixed(2)}\nIntimacy: ${sentiment.intimacy}\nFormality: ${sentiment.formality}`}
+        >
+            <div
+                className={`w-2 h-2 rotate-45 ${point.isSelected ? 'ring-1 ring-white' : 'opacity-70'}`}
+                style={{ backgroundColor: pointColor }}
+            />
+            <span className="absolute left-2.5 -top-1 text-[8px] leading-none text-white/70 whitespace-nowrap">{point.id}</span>
+        </div>
+    );
+};
+
+const clampPercent = (value: number) => Math.round(Math.max(0, Math.min(100, value)));
+
+export const SentimentVisualizer: React.FC<SentimentVisualizerProps> = ({
+  sentiment,
+  comparisonSentiment,
+  uiTranslations,
+  targetSentiment,
+  onTargetChange,
+  trajectory,
+  additionalPoints,
+  toneRange,
+  toneRangeLabel,
+}) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
   const visualizerRef = useRef<HTMLDivElement>(null);
+  const plotRef = useRef<HTMLDivElement>(null);
 
   useOnClickOutside(visualizerRef, () => setIsExpanded(false));
 
+  // Maps a pointer position on the plot to a target, keeping the target's sentiment score.
+  const updateTarget = (e: React.PointerEvent) => {
+    if (!onTargetChange || !plotRef.current) return;
+    const rect = plotRef.current.getBoundingClientRect();
+    onTargetChange({
+      score: targetSentiment?.score ?? sentiment.score,
+      formality: clampPercent(((e.clientX - rect.left) / rect.width) * 100),
+      intimacy: clampPercent(((rect.bottom - e.clientY) / rect.height) * 100),
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!onTargetChange) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsDragging(true);
+    updateTarget(e);
+  };
+
   return (
     <div ref={visualizerRef} className="absolute bottom-0 right-0">
       <div className="relative flex items-center justify-center">
@@ -82,7 +187,16 @@ export const SentimentVisualizer: React.FC<SentimentVisualizerProps> = ({ sentim
                 </div>
 
                 {/* Plot Area */}
-                <div className="absolute inset-0">
+                <div
+                    ref={plotRef}
+                    className={`absolute inset-0 ${onTargetChange ? 'cursor-crosshair touch-none' : ''}`}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={(e) => isDragging && updateTarget(e)}
+                    onPointerUp={() => setIsDragging(false)}
+                    onPointerCancel={() => setIsDragging(false)}
+                >
+                    {toneRange && <ToneRegion range={toneRange} isInRange={assessToneFit(sentiment, toneRange).isInRange} label={toneRangeLabel} />}
+                    {trajectory && trajectory.length > 1 && <Trajectory points={trajectory} />}
                     {comparisonSentiment && (
                          <svg className="absolute inset-0 w-full h-full overflow-visible" style={{transform: 'scaleY(-1) rotate(180deg)'}}>
                             <line
@@ -103,8 +217,10 @@ export const SentimentVisualizer: React.FC<SentimentVisualizerProps> = ({ sentim
                         </svg>
                     )}
                    
+                    {additionalPoints?.map(p => <LabelledPoint key={p.id} point={p} />)}
                     {comparisonSentiment && <SentimentPoint point={comparisonSentiment} isComparison />}
                     <SentimentPoint point={sentiment} />
+                    {targetSentiment && <TargetMarker target={targetSentiment} />}
                 </div>
 
                 {/* Axis Labels */}
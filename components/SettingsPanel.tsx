@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import type { ModelSettings, PromptTemplateId, TranslationProvider } from '../types';
+import { TEMPERATURE_RANGES, getModelSettings, setModelSettings } from '../services/settings';
+import {
+  PROMPT_VARIABLES,
+  checkPromptTemplate,
+  deleteCustomPromptTemplate,
+  getActivePromptTemplate,
+  getPromptTemplates,
+  saveCustomPromptTemplate,
+  setActivePromptVersion,
+} from '../services/promptTemplates';
+import { TrashIcon } from './icons';
+
+interface SettingsPanelProps {
+  provider: TranslationProvider; // Whose model the model field overrides
+}
+
+const PROMPT_IDS = Object.keys(PROMPT_VARIABLES) as PromptTemplateId[];
+
+const inputClassName = 'p-1 text-white bg-gray-800 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-400 focus:outline-none';
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ provider }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<ModelSettings>(getModelSettings);
+  const [promptId, setPromptId] = useState<PromptTemplateId>('translation');
+  const [activeVersion, setActiveVersion] = useState(() => getActivePromptTemplate('translation').version);
+  const [draft, setDraft] = useState(() => getActivePromptTemplate('translation').template);
+  const [newVersion, setNewVersion] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const updateSettings = (next: ModelSettings) => {
+    setSettings(next);
+    setModelSettings(next);
+  };
+
+  const showPrompt = (id: PromptTemplateId) => {
+    const active = getActivePromptTemplate(id);
+    setPromptId(id);
+    setActiveVersion(active.version);
+    setDraft(active.template);
+    setError(null);
+  };
+
+  const handleVersionChange = (version: string) => {
+    setActivePromptVersion(promptId, version);
+    showPrompt(promptId);
+  };
+
+  const handleSave = () => {
+    try {
+      saveCustomPromptTemplate({ id: promptId, version: newVersion, name: getActivePromptTemplate(promptId).name, template: draft });
+      setNewVersion('');
+      showPrompt(promptId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the prompt.');
+    }
+  };
+
+  const handleDelete = () => {
+    deleteCustomPromptTemplate(promptId, activeVersion);
+    showPrompt(promptId);
+  };
+
+  const templates = getPromptTemplates(promptId);
+  const active = templates.find(t => t.version === activeVersion);
+  const { unknown, missing } = checkPromptTemplate(promptId, draft);
+  const isEdited = draft !== active?.template;
+
+  return (
+    <section className="p-4 bg-white/5 rounded-lg border border-cyan-500/30">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 w-full text-left font-semibold text-cyan-200"
+        aria-expanded={isOpen}
+      >
+        Model & Prompt Settings
+        <span className="ml-auto text-sm text-gray-400">{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 flex flex-col gap-4 animate-fade-in">
+          <p className="text-sm text-gray-400">
+            These settings apply to every request of the {provider.name} provider and are recorded with each history entry and batch row,
+            so that runs with different settings can be compared. The offline provider ignores them.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+            <label htmlFor="settings-model" className="flex items-center gap-2">
+              Model
+              <input
+                id="settings-model"
+                value={settings.models[provider.id] ?? ''}
+                onChange={(e) => updateSettings({ ...settings, models: { ...settings.models, [provider.id]: e.target.value } })}
+                placeholder={provider.model}
+                className={`w-48 ${inputClassName}`}
+              />
+            </label>
+            <label htmlFor="settings-temperature" className="flex items-center gap-2">
+              Temperature
+              <input
+                id="settings-temperature"
+                type="number"
+                min={TEMPERATURE_RANGES[provider.id].min}
+                max={TEMPERATURE_RANGES[provider.id].max}
+                step={0.1}
+                value={settings.temperature ?? ''}
+                onChange={(e) => updateSettings({ ...settings, temperature: e.target.value === '' ? undefined : Number(e.target.value) })}
+                placeholder="default"
+                className={`w-24 ${inputClassName}`}
+              />
+            </label>
+          </div>
+
+          <label htmlFor="settings-system" className="flex flex-col gap-1 text-sm text-gray-300">
+            System instruction
+            <textarea
+              id="settings-system"
+              value={settings.systemInstruction}
+              onChange={(e) => updateSettings({ ...settings, systemInstruction: e.target.value })}
+              placeholder="None"
+              rows={2}
+              className={`resize-y ${inputClassName}`}
+            />
+          </label>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+            <label htmlFor="settings-prompt" className="flex items-center gap-2">
+              Prompt
+              <select id="settings-prompt" value={promptId} onChange={(e) => showPrompt(e.target.value as PromptTemplateId)} className={inputClassName}>
+                {PROMPT_IDS.map(id => <option key={id} value={id}>{getActivePromptTemplate(id).name}</option>)}
+              </select>
+            </label>
+            <label htmlFor="settings-version" className="flex items-center gap-2">
+              Active version
+              <select id="settings-version" value={activeVersion} onChange={(e) => handleVersionChange(e.target.value)} className={inputClassName}>
+                {templates.map(t => <option key={t.version} value={t.version}>{t.version}{t.isBuiltIn ? ' (built-in)' : ''}</option>)}
+              </select>
+            </label>
+            {active && !active.isBuiltIn && (
+              <button
+                onClick={handleDelete}
+                className="p-1 text-gray-400 rounded hover:text-red-300 hover:bg-white/10"
+                aria-label={`Delete version ${active.version}`}
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          <textarea
+            value={draft}
+            onChange={(e) => { setDraft(e.target.value); setError(null); }}
+            rows={10}
+            spellCheck={false}
+            className={`font-mono text-xs resize-y ${inputClassName}`}
+            aria-label="Prompt template"
+          />
+          <p className="text-xs text-gray-400">
+            Variables: {PROMPT_VARIABLES[promptId].map(v => <code key={v} className="mr-1">{`{{${v}}}`}</code>)}
+          </p>
+          {unknown.length > 0 && <p className="text-xs text-red-300">Unknown variables: {unknown.map(v => `{{${v}}}`).join(', ')}</p>}
+          {missing.length > 0 && (
+            <p className="text-xs text-yellow-300">
+              Not used: {missing.map(v => `{{${v}}}`).join(', ')}. Requests that set these, e.g. with an audience profile or a glossary, will leave them out.
+            </p>
+          )}
+
+          {isEdited && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+              <label htmlFor="settings-new-version" className="flex items-center gap-2">
+                Save as version
+                <input
+                  id="settings-new-version"
+                  value={newVersion}
+                  onChange={(e) => setNewVersion(e.target.value)}
+                  placeholder="e.g. 2"
+                  className={`w-32 ${inputClassName}`}
+                />
+              </label>
+              <button
+                onClick={handleSave}
+                disabled={!newVersion.trim() || unknown.length > 0}
+                className="px-3 py-1.5 text-sm font-semibold text-gray-900 bg-cyan-400 rounded-md hover:bg-cyan-300 disabled:bg-gray-600 disabled:cursor-not-allowed"
+              >
+                Save
+              </button>
+              <button onClick={() => showPrompt(promptId)} className="px-3 py-1.5 text-sm text-gray-200 border border-gray-600 rounded-md hover:bg-white/10">
+                Discard
+              </button>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-300">{error}</p>}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import type { Sentiment, SentimentScore, TranslationReport } from '../types';
+import { decodeReport } from '../report';
+import { getEmojiForSentiment } from '../emoji';
+import { TextAreaWithSentiment } from './TextAreaWithSentiment';
+import { ExportMenu } from './ExportMenu';
+import { LightbulbIcon, LoadingSpinner } from './icons';
+
+interface SharedReportViewProps {
+  encoded: string; // The report part of the link, after SHARED_REPORT_HASH_PREFIX
+}
+
+const withEmoji = (score: SentimentScore, languageCode: string): Sentiment => ({
+  ...score,
+  emoji: getEmojiForSentiment(score, languageCode),
+});
+
+/**
+ * Shows a report opened from a share link. Nothing can be edited or re-run, and no
+ * provider is called, so the link works without an API key.
+ */
+export const SharedReportView: React.FC<SharedReportViewProps> = ({ encoded }) => {
+  const [report, setReport] = useState<TranslationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    decodeReport(encoded)
+      .then(r => isCurrent && setReport(r))
+      .catch(err => isCurrent && setError(err instanceof Error ? err.message : String(err)));
+    return () => {
+      isCurrent = false;
+    };
+  }, [encoded]);
+
+  const openTranslator = () => window.location.assign(window.location.pathname);
+
+  const response = report?.response;
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white font-sans p-4 sm:p-8 flex flex-col items-center">
+      <div className="w-full max-w-4xl mx-auto">
+        <header className="text-center mb-8">
+          <h1 className="text-4xl sm:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-teal-200">
+            Sentiment Translator
+          </h1>
+          <p className="mt-2 text-gray-400">Shared result (read-only)</p>
+        </header>
+
+        <main className="flex flex-col gap-4">
+          {!report && !error && (
+            <div className="flex items-center justify-center gap-2 text-gray-300">
+              <LoadingSpinner className="w-5 h-5 animate-spin text-cyan-400" />
+              Opening the shared result…
+            </div>
+          )}
+
+          {error && <p className="p-4 text-red-200 bg-red-900/40 border border-red-500/30 rounded-lg">{error}</p>}
+
+          {report && response && (
+            <>
+              <p className="text-sm text-gray-400">
+                {report.sourceLanguage.name} → {report.targetLanguage.name} · {report.generation?.model ?? report.providerId}
+                {report.audience && <> · for {report.audience.name}</>}
+                {report.isEdited && <> · edited by hand</>}
+                {' · '}{new Date(report.createdAt).toLocaleString()}
+              </p>
+
+              <TextAreaWithSentiment
+                id="shared-source-text"
+                label={`Original Text (${report.sourceLanguage.name})`}
+                value={report.sourceText}
+                readOnly
+                placeholder=""
+                sentiment={withEmoji(response.sourceSentiment, report.sourceLanguage.code)}
+                uiTranslations={response.uiTranslations}
+                textStyle={response.sourceStyle}
+              />
+
+              {response.nuance && (
+                <div className="p-4 bg-yellow-900/30 border border-yellow-500/30 rounded-lg">
+                  <div className="flex items-center gap-2 mb-2">
+                    <LightbulbIcon className="w-5 h-5 text-yellow-300" />
+                    <h3 className="font-semibold text-yellow-200">Nuance Analysis</h3>
+                  </div>
+                  <p className="text-sm text-gray-200">{response.nuance}</p>
+                </div>
+              )}
+
+              <TextAreaWithSentiment
+                id="shared-translated-text"
+                label={`Translated Text (${report.targetLanguage.name})`}
+                value={response.translation}
+                readOnly
+                placeholder=""
+                sentiment={withEmoji(response.translatedSentiment, report.targetLanguage.code)}
+                comparisonSentiment={withEmoji(response.sourceSentiment, report.sourceLanguage.code)}
+                uiTranslations={response.uiTranslations}
+                textStyle={response.translatedStyle}
+                audience={report.audience}
+              />
+
+              {report.emojiSuggestion && (
+                <div className="p-4 bg-white/5 border border-cyan-500/30 rounded-lg">
+                  <h3 className="mb-2 font-semibold text-cyan-200">Suggested emojis: {report.emojiSuggestion.emojis.join(' ')}</h3>
+                  <p className="text-sm text-gray-200">{report.emojiSuggestion.explanation}</p>
+                </div>
+              )}
+
+              <ExportMenu report={report} />
+            </>
+          )}
+
+          <button
+            onClick={openTranslator}
+            className="self-center px-3 py-1.5 text-sm text-gray-200 border border-gray-600 rounded-md hover:bg-white/10"
+          >
+            Open the translator
+          </button>
+        </main>
+      </div>
+    </div>
+  );
+};
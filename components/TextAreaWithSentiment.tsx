@@ -1,7 +1,11 @@
-import React from 'react';
-import type { Sentiment, UITranslations, TextStyle } from '../types';
+import React, { useRef, useState } from 'react';
+import type { Sentiment, SentimentScore, UITranslations, TextStyle, TextHighlight, PlotPoint, AudienceProfile, GlossaryViolation } from '../types';
 import { SentimentVisualizer } from './SentimentVisualizer';
+import { HighlightOverlay, findHighlightTooltip } from './HighlightOverlay';
 import { LoadingSpinner } from './icons';
+import { BaselineComparison } from './BaselineComparison';
+import { assessToneFit } from '../sentiment';
+import { describeToneFit } from './formatting';
 
 interface TextAreaWithSentimentProps {
   id: string;
@@ -16,6 +20,14 @@ interface TextAreaWithSentimentProps {
   isLoading?: boolean; // For the big overlay spinner (used for initial translation)
   isAnalyzing?: boolean; // For the small real-time analysis spinner
   textStyle?: TextStyle | null;
+  highlights?: TextHighlight[]; // Character ranges to mark over the text, e.g. modal particles
+  targetSentiment?: SentimentScore | null;
+  onTargetChange?: (target: SentimentScore) => void;
+  trajectory?: SentimentScore[];
+  additionalPoints?: PlotPoint[];
+  baselineSentiment?: SentimentScore | null; // Lexicon score shown next to the model's
+  audience?: AudienceProfile | null; // Its range is drawn on the map and checked against the score
+  glossaryViolations?: GlossaryViolation[]; // Listed below the text
 }
 
 export const TextAreaWithSentiment: React.FC<TextAreaWithSentimentProps> = ({
@@ -31,7 +43,33 @@ export const TextAreaWithSentiment: React.FC<TextAreaWithSentimentProps> = ({
   isLoading,
   isAnalyzing,
   textStyle,
+  highlights,
+  targetSentiment,
+  onTargetChange,
+  trajectory,
+  additionalPoints,
+  baselineSentiment,
+  audience,
+  glossaryViolations,
 }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [hoveredTooltip, setHoveredTooltip] = useState<string | undefined>();
+  const audienceFit = audience && sentiment ? assessToneFit(sentiment, audience) : null;
+
+  // Only plotted when there is a model score too; on its own the baseline is just the text below.
+  const plottedPoints: PlotPoint[] | undefined = baselineSentiment && !sentiment?.isFallback
+    ? [...(additionalPoints ?? []), { id: 'L', label: 'Lexicon baseline', sentiment: baselineSentiment }]
+    : additionalPoints;
+
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (overlayRef.current) {
+      overlayRef.current.scrollTop = e.currentTarget.scrollTop;
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLTextAreaElement>) =>
+    setHoveredTooltip(overlayRef.current ? findHighlightTooltip(overlayRef.current, e.clientX, e.clientY) : undefined);
+
   return (
     <div className="w-full">
       <label htmlFor={id} className="block mb-2 text-sm font-medium text-cyan-200">
@@ -43,9 +81,16 @@ export const TextAreaWithSentiment: React.FC<TextAreaWithSentimentProps> = ({
           value={value}
           onChange={onChange}
           readOnly={readOnly}
+          onScroll={handleScroll}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHoveredTooltip(undefined)}
+          title={hoveredTooltip}
           placeholder={placeholder}
           className="w-full h-48 p-4 pr-20 text-lg text-gray-100 bg-white/5 border border-cyan-500/30 rounded-lg resize-none focus:ring-2 focus:ring-cyan-400 focus:border-cyan-400 focus:outline-none backdrop-blur-sm transition-colors"
         />
+        {highlights && highlights.length > 0 && (
+            <HighlightOverlay text={value} highlights={highlights} overlayRef={overlayRef} />
+        )}
         {isLoading && (
             <div className="absolute inset-0 flex items-center justify-center bg-gray-900/50 rounded-lg">
                 <div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-cyan-400"></div>
@@ -59,17 +104,54 @@ export const TextAreaWithSentiment: React.FC<TextAreaWithSentimentProps> = ({
                     sentiment={sentiment} 
                     comparisonSentiment={comparisonSentiment} 
                     uiTranslations={uiTranslations}
+                    targetSentiment={targetSentiment}
+                    onTargetChange={onTargetChange}
+                    trajectory={trajectory}
+                    additionalPoints={plottedPoints}
+                    toneRange={audience}
+                    toneRangeLabel={audience?.name}
                 />
             )}
         </div>
       </div>
-      {textStyle && uiTranslations && (uiTranslations.spoken || uiTranslations.written) && (
-        <div className="mt-2 text-right">
-          <span className="inline-block bg-gray-700 text-cyan-200 text-xs font-semibold px-2.5 py-1 rounded-full">
-            {textStyle === 'SPOKEN' ? uiTranslations.spoken : uiTranslations.written}
-          </span>
+      {(sentiment?.isFallback || audienceFit || (textStyle && uiTranslations && (uiTranslations.spoken || uiTranslations.written))) && (
+        <div className="flex justify-end gap-2 mt-2">
+          {audience && audienceFit && (
+            <span
+              className={`inline-block text-xs font-semibold px-2.5 py-1 rounded-full ${audienceFit.isInRange ? 'bg-emerald-900/60 text-emerald-200' : 'bg-amber-900/60 text-amber-200'}`}
+              title={`Formality ${audience.formality.min}–${audience.formality.max}, intimacy ${audience.intimacy.min}–${audience.intimacy.max}`}
+            >
+              {audience.name}: {describeToneFit(audienceFit)}
+            </span>
+          )}
+          {sentiment?.isFallback && (
+            <span
+              className="inline-block bg-amber-900/60 text-amber-200 text-xs font-semibold px-2.5 py-1 rounded-full"
+              title="The provider could not score this text, so the offline lexicon scorer estimated it."
+            >
+              Offline estimate
+            </span>
+          )}
+          {textStyle && uiTranslations && (uiTranslations.spoken || uiTranslations.written) && (
+            <span className="inline-block bg-gray-700 text-cyan-200 text-xs font-semibold px-2.5 py-1 rounded-full">
+              {textStyle === 'SPOKEN' ? uiTranslations.spoken : uiTranslations.written}
+            </span>
+          )}
         </div>
       )}
+      {glossaryViolations && glossaryViolations.length > 0 && (
+        <ul className="mt-2 flex flex-col gap-1 text-xs text-red-300">
+          {glossaryViolations.map(({ entry, expected, found }) => (
+            <li key={entry.id}>
+              Glossary: "{entry.term}" should be rendered as "{entry.translation}"
+              {expected > 1 ? ` (${found} of ${expected} occurrences)` : ''}
+            </li>
+          ))}
+        </ul>
+      )}
+      {baselineSentiment && (
+        <BaselineComparison baseline={baselineSentiment} sentiment={sentiment?.isFallback ? null : sentiment} />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,268 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Language, RequestOptions, ThreadMessage, ThreadMessageResult, TranslationProvider } from '../types';
+import { THREAD_CONTEXT_TURNS } from '../constants';
+import { getEmojiForSentiment } from '../emoji';
+import { getGlossary, selectGlossaryEntries } from '../glossary';
+import { parseThread, getThreadContext } from '../thread';
+import { classifyError } from '../services/errors';
+import { SentimentTimeline } from './SentimentTimeline';
+import { LanguagePicker } from './LanguagePicker';
+import { LoadingSpinner, TrashIcon } from './icons';
+
+interface ThreadPanelProps {
+  provider: TranslationProvider;
+  defaultSourceLanguage: Language; // The thread keeps its own source language, picked in the panel
+  targetLanguage: Language;
+  requestOptions?: RequestOptions;
+}
+
+const inputClassName = 'p-1 text-white bg-gray-800 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-400 focus:outline-none';
+
+const ThreadMessageRow: React.FC<{
+  message: ThreadMessage;
+  result?: ThreadMessageResult;
+  sourceLanguage: Language;
+  targetLanguage: Language;
+  disabled: boolean;
+  onChange: (message: ThreadMessage) => void;
+  onRemove: () => void;
+}> = ({ message, result, sourceLanguage, targetLanguage, disabled, onChange, onRemove }) => {
+  const response = result?.response;
+  return (
+    <li className="flex flex-col gap-2 p-3 bg-gray-800/60 rounded-md">
+      <div className="flex items-start gap-2">
+        <input
+          value={message.speaker}
+          onChange={(e) => onChange({ ...message, speaker: e.target.value })}
+          placeholder="Speaker"
+          disabled={disabled}
+          className={`w-28 text-sm font-semibold ${inputClassName}`}
+          aria-label="Speaker"
+        />
+        <textarea
+          value={message.text}
+          onChange={(e) => onChange({ ...message, text: e.target.value })}
+          rows={Math.min(4, message.text.split('\n').length)}
+          disabled={disabled}
+          className={`flex-1 text-sm resize-y ${inputClassName}`}
+          aria-label={`Message from ${message.speaker || 'unknown speaker'}`}
+        />
+        {response && <span className="text-xl" title={`${sourceLanguage.name} sentiment`}>{getEmojiForSentiment(response.sourceSentiment, sourceLanguage.code)}</span>}
+        <button
+          onClick={onRemove}
+          disabled={disabled}
+          className="p-1 text-gray-400 rounded hover:text-red-300 hover:bg-white/10 disabled:opacity-50"
+          aria-label="Remove message"
+        >
+          <TrashIcon className="w-4 h-4" />
+        </button>
+      </div>
+      {result?.status === 'running' && <LoadingSpinner className="w-4 h-4 ml-[7.5rem] animate-spin text-cyan-400" />}
+      {result?.status === 'error' && <p className="ml-[7.5rem] text-sm text-red-300">{result.error}</p>}
+      {response && (
+        <div className="flex items-start gap-2 ml-[7.5rem]">
+          <p className="flex-1 text-sm text-cyan-100/90 whitespace-pre-wrap break-words">{response.translation}</p>
+          <span className="text-xl" title={`${targetLanguage.name} sentiment`}>{getEmojiForSentiment(response.translatedSentiment, targetLanguage.code)}</span>
+        </div>
+      )}
+    </li>
+  );
+};
+
+export const ThreadPanel: React.FC<ThreadPanelProps> = ({ provider, defaultSourceLanguage, targetLanguage, requestOptions }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sourceLanguage, setSourceLanguage] = useState(defaultSourceLanguage);
+  const [pasted, setPasted] = useState('');
+  const [messages, setMessages] = useState<ThreadMessage[]>([]);
+  const [results, setResults] = useState<Record<string, ThreadMessageResult>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Translations belong to the provider and language pair they were made with, so a change starts over.
+  useEffect(() => {
+    setResults({});
+    // Stopping a run here also keeps its results from arriving after the reset or after unmounting.
+    return () => {
+      abortRef.current?.abort();
+      abortRef.current = null;
+    };
+  }, [provider.id, sourceLanguage.code, targetLanguage.code]);
+
+  const handleLoad = () => {
+    setMessages(parseThread(pasted));
+    setResults({});
+    setPasted('');
+  };
+
+  // Later translations were made with this message as context, so they are redone too.
+  const clearResultsFrom = (index: number) =>
+    setResults(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => messages.findIndex(m => m.id === id) < index)));
+
+  // A speaker only appears in the context of the messages after it.
+  const updateMessage = (index: number, message: ThreadMessage) => {
+    setMessages(prev => prev.map((m, i) => (i === index ? message : m)));
+    if (message.text !== messages[index].text) clearResultsFrom(index);
+    else if (message.speaker !== messages[index].speaker) clearResultsFrom(index + 1);
+  };
+
+  const removeMessage = (index: number) => {
+    clearResultsFrom(index);
+    setMessages(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // In a two-person chat the next speaker is usually the one before the last.
+  const addMessage = () =>
+    setMessages(prev => [...prev, { id: crypto.randomUUID(), speaker: prev[prev.length - 2]?.speaker ?? '', text: '' }]);
+
+  // Messages are translated in order, each with the translations before it as context.
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    const glossary = getGlossary(sourceLanguage.code, targetLanguage.code);
+    const current = { ...results };
+
+    for (const [index, message] of messages.entries()) {
+      if (current[message.id]?.status === 'done' || !message.text.trim()) continue;
+      current[message.id] = { messageId: message.id, status: 'running' };
+      setResults({ ...current });
+      try {
+        const response = await provider.getTranslationAndSentiment(message.text, sourceLanguage.code, targetLanguage.name, {
+          ...requestOptions,
+          signal: controller.signal,
+          glossary: selectGlossaryEntries(message.text, glossary),
+          context: getThreadContext(messages, current, index, THREAD_CONTEXT_TURNS),
+        });
+        current[message.id] = { messageId: message.id, status: 'done', response };
+      } catch (err) {
+        const translatorError = classifyError(err);
+        if (translatorError.kind === 'cancelled') {
+          delete current[message.id];
+          break;
+        }
+        console.error(`Error translating message ${index + 1}:`, err);
+        current[message.id] = { messageId: message.id, status: 'error', error: translatorError.message };
+      }
+      if (abortRef.current !== controller) break;
+      setResults({ ...current });
+    }
+
+    // A run stopped by a reset or unmount must not bring back its results.
+    if (abortRef.current === controller) {
+      setResults({ ...current });
+      abortRef.current = null;
+    }
+    setIsRunning(false);
+  };
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  const timeline = messages
+    .filter(m => results[m.id]?.response)
+    .map(m => ({
+      label: m.speaker || '?',
+      source: results[m.id].response!.sourceSentiment,
+      translation: results[m.id].response!.translatedSentiment,
+    }));
+  const pending = messages.filter(m => m.text.trim() && results[m.id]?.status !== 'done').length;
+
+  return (
+    <section className="p-4 bg-white/5 rounded-lg border border-cyan-500/30">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 w-full text-left font-semibold text-cyan-200"
+        aria-expanded={isOpen}
+      >
+        Conversation Thread
+        <span className="ml-auto text-sm text-gray-400">{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 flex flex-col gap-4 animate-fade-in">
+          <p className="text-sm text-gray-400">
+            Translate a chat from {sourceLanguage.name} into {targetLanguage.name} message by message. Each message is translated
+            with up to {THREAD_CONTEXT_TURNS} earlier messages and their translations as context, so that references, terms of
+            address and tone stay consistent. Paste a log with one <code>Speaker: message</code> per line, or add messages one by one.
+          </p>
+
+          <div className="w-64">
+            <LanguagePicker
+              id="thread-source-language"
+              label="Language of the chat"
+              value={sourceLanguage}
+              onChange={setSourceLanguage}
+              disabled={isRunning}
+            />
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <textarea
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+              placeholder={'Mina: Are you coming tonight?\nJoon: Maybe, I\'m still at work...'}
+              rows={3}
+              disabled={isRunning}
+              className={`text-sm resize-y ${inputClassName}`}
+              aria-label="Paste a conversation"
+            />
+            <button
+              onClick={handleLoad}
+              disabled={isRunning || !pasted.trim()}
+              className="self-end px-3 py-1.5 text-sm text-gray-200 border border-gray-600 rounded-md hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {messages.length > 0 ? 'Replace thread' : 'Load thread'}
+            </button>
+          </div>
+
+          {messages.length > 0 && (
+            <ol className="flex flex-col gap-2">
+              {messages.map((message, index) => (
+                <ThreadMessageRow
+                  key={message.id}
+                  message={message}
+                  result={results[message.id]}
+                  sourceLanguage={sourceLanguage}
+                  targetLanguage={targetLanguage}
+                  disabled={isRunning}
+                  onChange={(m) => updateMessage(index, m)}
+                  onRemove={() => removeMessage(index)}
+                />
+              ))}
+            </ol>
+          )}
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={addMessage}
+              disabled={isRunning}
+              className="px-3 py-1.5 text-sm text-gray-200 border border-gray-600 rounded-md hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add message
+            </button>
+            {isRunning ? (
+              <button
+                onClick={handleCancel}
+                className="ml-auto flex items-center gap-2 px-3 py-1.5 text-sm text-gray-200 border border-gray-600 rounded-md hover:bg-white/10"
+              >
+                <LoadingSpinner className="w-4 h-4 animate-spin" />
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                disabled={pending === 0}
+                className="ml-auto px-3 py-1.5 text-sm font-semibold text-gray-900 bg-cyan-400 rounded-md hover:bg-cyan-300 disabled:bg-gray-600 disabled:cursor-not-allowed"
+              >
+                Translate {pending} {pending === 1 ? 'message' : 'messages'}
+              </button>
+            )}
+          </div>
+
+          {timeline.length > 0 && (
+            <SentimentTimeline points={timeline} sourceLabel={sourceLanguage.name} translationLabel={targetLanguage.name} />
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,111 @@
+import React from 'react';
+import type { SentimentScore } from '../types';
+import { LoadingSpinner, SparklesIcon } from './icons';
+
+interface ToneTargetControlsProps {
+  target: SentimentScore;
+  onTargetChange: (target: SentimentScore) => void;
+  onRetranslate: () => void;
+  onReset: () => void;
+  isRetranslating: boolean;
+}
+
+interface SliderProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ id, label, value, min, max, step, format, onChange }) => (
+  <div className="flex flex-col gap-1">
+    <label htmlFor={id} className="flex justify-between text-xs text-gray-300">
+      <span>{label}</span>
+      <span className="font-mono text-cyan-200">{format(value)}</span>
+    </label>
+    <input
+      id={id}
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full accent-cyan-400"
+    />
+  </div>
+);
+
+export const ToneTargetControls: React.FC<ToneTargetControlsProps> = ({
+  target,
+  onTargetChange,
+  onRetranslate,
+  onReset,
+  isRetranslating,
+}) => {
+  return (
+    <div className="p-4 bg-cyan-900/20 border border-cyan-500/30 rounded-lg animate-fade-in">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-cyan-200">Target Tone</h3>
+        <p className="text-xs text-gray-400">Drag on the translation's map or use the sliders.</p>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Slider
+          id="target-score"
+          label="Sentiment"
+          value={target.score}
+          min={-1}
+          max={1}
+          step={0.05}
+          format={(v) => v.toFixed(2)}
+          onChange={(score) => onTargetChange({ ...target, score })}
+        />
+        <Slider
+          id="target-intimacy"
+          label="Intimacy"
+          value={target.intimacy}
+          min={0}
+          max={100}
+          step={1}
+          format={(v) => String(Math.round(v))}
+          onChange={(intimacy) => onTargetChange({ ...target, intimacy })}
+        />
+        <Slider
+          id="target-formality"
+          label="Formality"
+          value={target.formality}
+          min={0}
+          max={100}
+          step={1}
+          format={(v) => String(Math.round(v))}
+          onChange={(formality) => onTargetChange({ ...target, formality })}
+        />
+      </div>
+      <div className="flex justify-end gap-2 mt-4">
+        <button
+          onClick={onReset}
+          disabled={isRetranslating}
+          className="px-3 py-1.5 text-sm text-gray-200 border border-gray-600 rounded-md hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Reset
+        </button>
+        <button
+          onClick={onRetranslate}
+          disabled={isRetranslating}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-gray-900 bg-cyan-400 rounded-md hover:bg-cyan-300 disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          {isRetranslating ? (
+            <LoadingSpinner className="w-4 h-4 animate-spin" />
+          ) : (
+            <SparklesIcon className="w-4 h-4" />
+          )}
+          Retranslate to target
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import type { DiffPart } from '../types';
+import { DiffText } from './DiffText';
+
+interface TranslationDiffProps {
+  parts: DiffPart[];
+  onRevert: () => void;
+}
+
+export const TranslationDiff: React.FC<TranslationDiffProps> = ({ parts, onRevert }) => {
+  const addedCount = parts.filter(p => p.type === 'added').length;
+  const removedCount = parts.filter(p => p.type === 'removed').length;
+
+  return (
+    <div className="p-4 bg-white/5 border border-cyan-500/30 rounded-lg animate-fade-in">
+      <div className="flex items-center gap-2 mb-2">
+        <h3 className="font-semibold text-cyan-200">Your edits</h3>
+        <span className="text-xs text-gray-400">
+          {addedCount} added · {removedCount} removed
+        </span>
+        <button
+          onClick={onRevert}
+          className="ml-auto px-2 py-1 text-sm text-gray-300 border border-gray-600 rounded-md hover:bg-white/10"
+        >
+          Revert to model output
+        </button>
+      </div>
+      <DiffText parts={parts} />
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import type { ToneFit } from '../types';
+
+/**
+ * Formats a signed change with an explicit sign, e.g. "+0.12", "−5" or "±0".
+ * @param delta The change.
+ * @param digits Decimal places to show.
+ * @returns The formatted change.
+ */
+export const formatDelta = (delta: number, digits: number): string =>
+  `${delta > 0 ? '+' : delta < 0 ? '−' : '±'}${Math.abs(delta).toFixed(digits)}`;
+
+/**
+ * Says how a text misses a tone range, e.g. "too formal, too distant".
+ * @param fit The result of assessToneFit.
+ * @returns The description, or "in range" if it does not miss it.
+ */
+export const describeToneFit = (fit: ToneFit): string => {
+  if (fit.isInRange) return 'in range';
+  const misses = [
+    fit.formality === 'above' ? 'too formal' : fit.formality === 'below' ? 'too casual' : null,
+    fit.intimacy === 'above' ? 'too intimate' : fit.intimacy === 'below' ? 'too distant' : null,
+  ];
+  return misses.filter(Boolean).join(', ');
+};
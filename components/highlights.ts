@@ -0,0 +1,82 @@
+import type { GlossaryEntry, ModalParticle, SegmentAlignment, TextHighlight } from '../types';
+import { getSentimentDistance } from '../sentiment';
+import { findTermOccurrences, isDoNotTranslate } from '../glossary';
+
+const formatDelta = (value: number, digits = 0) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+/**
+ * Turns detected modal particles into textarea highlights, tinted by the
+ * direction of their sentiment contribution (red → yellow → green).
+ * @param particles The particles to highlight.
+ * @returns One highlight per particle.
+ */
+export const getParticleHighlights = (particles: ModalParticle[]): TextHighlight[] =>
+  particles.map(p => {
+    // Contributions are small deltas, so they are stretched to use the full colour range.
+    const tint = Math.max(-1, Math.min(1, p.contribution.score * 4));
+    return {
+      start: p.start,
+      end: p.end,
+      color: `hsla(${120 * (tint * 0.5 + 0.5)}, 80%, 60%, 0.45)`,
+      tooltip: [
+        `"${p.text}" (${p.language})${p.function ? ` — ${p.function}` : ''}`,
+        `Sentiment: ${formatDelta(p.contribution.score, 2)}`,
+        `Intimacy: ${formatDelta(p.contribution.intimacy)}`,
+        `Formality: ${formatDelta(p.contribution.formality)}`,
+      ].join('\n'),
+    };
+  });
+
+// Gap at which a segment is drawn fully red; typical gaps are well below the 0..1 maximum.
+const HEATMAP_SATURATION_GAP = 0.3;
+
+/**
+ * Turns aligned segments into heatmap highlights for one side of the translation.
+ * Both sides get the same tint per pair, so a sentence and its translation
+ * can be matched by colour; green means the pair kept its sentiment, red means it drifted.
+ * @param segments The aligned segment pairs.
+ * @param side Which text the highlights are for.
+ * @returns One highlight per segment pair.
+ */
+export const getSegmentHighlights = (segments: SegmentAlignment[], side: 'source' | 'translation'): TextHighlight[] =>
+  segments.map((pair, i) => {
+    const { source, translation } = pair;
+    const gap = getSentimentDistance(source.sentiment, translation.sentiment);
+    const heat = Math.min(1, gap / HEATMAP_SATURATION_GAP);
+    const segment = pair[side];
+    return {
+      start: segment.start,
+      end: segment.end,
+      color: `hsla(${120 * (1 - heat)}, 80%, 50%, ${0.12 + heat * 0.25})`,
+      tooltip: [
+        `Segment ${i + 1} — gap ${(gap * 100).toFixed(0)}%`,
+        `Sentiment: ${source.sentiment.score.toFixed(2)} → ${translation.sentiment.score.toFixed(2)}`,
+        `Intimacy: ${Math.round(source.sentiment.intimacy)} → ${Math.round(translation.sentiment.intimacy)}`,
+        `Formality: ${Math.round(source.sentiment.formality)} → ${Math.round(translation.sentiment.formality)}`,
+      ].join('\n'),
+    };
+  });
+
+/**
+ * Marks glossary terms in a translation: required renderings in green, and source
+ * terms that were left untranslated against the glossary in red.
+ * @param translatedText The translation.
+ * @param sourceText The original text; only terms occurring in it are marked.
+ * @param glossary The glossary of the language pair.
+ * @returns One highlight per occurrence.
+ */
+export const getGlossaryHighlights = (translatedText: string, sourceText: string, glossary: GlossaryEntry[]): TextHighlight[] =>
+  glossary
+    .filter(entry => findTermOccurrences(sourceText, entry.term, entry.caseSensitive).length > 0)
+    .flatMap(entry => [
+      ...findTermOccurrences(translatedText, entry.translation, entry.caseSensitive).map(range => ({
+        ...range,
+        color: 'hsla(160, 80%, 50%, 0.3)',
+        tooltip: `Glossary: "${entry.term}" → "${entry.translation}"${entry.notes ? `\n${entry.notes}` : ''}`,
+      })),
+      ...(isDoNotTranslate(entry) ? [] : findTermOccurrences(translatedText, entry.term, entry.caseSensitive)).map(range => ({
+        ...range,
+        color: 'hsla(0, 80%, 60%, 0.45)',
+        tooltip: `Glossary: "${entry.term}" should be translated as "${entry.translation}"`,
+      })),
+    ]);
@@ -10,4 +10,14 @@ export const SUPPORTED_LANGUAGES: Language[] = [
   { code: 'de', name: 'German' },
   { code: 'th', name: 'Thai' },
   { code: 'zh', name: 'Chinese' },
-];
\ No newline at end of file
+];
+
+// Minimum sentiment score gap between source and translation before emojis are suggested.
+export const EMOJI_SUGGESTION_THRESHOLD = 0.2;
+
+// Largest change between the original and its back-translation before the round trip is flagged.
+// `neutral` is the band around zero within which a score counts as neither positive nor negative.
+export const ROUND_TRIP_THRESHOLDS = { score: 0.3, formality: 20, neutral: 0.1 };
+
+// How many earlier messages are sent as context when translating a message of a thread.
+export const THREAD_CONTEXT_TURNS = 6;
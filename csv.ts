@@ -0,0 +1,78 @@
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes.
+ * @param text The CSV text.
+ * @returns The rows, each an array of field values. Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+};
+
+/**
+ * Parses CSV whose first row is a header into one object per row.
+ * @param text The CSV text.
+ * @returns The records, keyed by the (trimmed) header names.
+ */
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return [];
+  }
+  const keys = header.map(h => h.trim());
+  return rows.map(row => Object.fromEntries(keys.map((key, i) => [key, row[i] ?? ''])));
+};
+
+const escapeCsvField = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes records to CSV with a header row.
+ * @param columns The column names, in order.
+ * @param records The records to write.
+ * @returns The CSV text.
+ */
+export const toCsv = (columns: string[], records: Record<string, unknown>[]): string =>
+  [columns, ...records.map(r => columns.map(c => r[c]))]
+    .map(row => row.map(escapeCsvField).join(','))
+    .join('\r\n');
@@ -0,0 +1,55 @@
+import type { DiffPart } from './types';
+
+/**
+ * Splits text into words, whitespace and punctuation using the browser's
+ * locale-aware segmenter, so languages written without spaces still diff by word.
+ */
+const tokenize = (text: string, languageCode?: string): string[] =>
+  Array.from(new Intl.Segmenter(languageCode, { granularity: 'word' }).segment(text), s => s.segment);
+
+const pushPart = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+/**
+ * Computes a word-level diff between two texts from their longest common subsequence.
+ * @param before The original text, e.g. the model's translation.
+ * @param after The edited text.
+ * @param languageCode The language of both texts, used for word boundaries.
+ * @returns Runs of unchanged, removed and added text that together spell out both inputs.
+ */
+export const diffWords = (before: string, after: string, languageCode?: string): DiffPart[] => {
+  const a = tokenize(before, languageCode);
+  const b = tokenize(after, languageCode);
+
+  // lengths[i][j] is the LCS length of a[i:] and b[j:].
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushPart(parts, 'removed', a[i++]);
+    } else {
+      pushPart(parts, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++]);
+  while (j < b.length) pushPart(parts, 'added', b[j++]);
+  return parts;
+};
@@ -0,0 +1,22 @@
+/**
+ * Offers a blob to the user as a file download.
+ * @param fileName The suggested file name.
+ * @param content The file content.
+ */
+export const downloadBlob = (fileName: string, content: Blob): void => {
+  const url = URL.createObjectURL(content);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Offers text to the user as a file download.
+ * @param fileName The suggested file name.
+ * @param content The file content.
+ * @param mimeType The MIME type of the content.
+ */
+export const downloadTextFile = (fileName: string, content: string, mimeType: string): void =>
+  downloadBlob(fileName, new Blob([content], { type: `${mimeType};charset=utf-8` }));
@@ -1,34 +1,154 @@
-// Data sourced from: https://kt.ijs.si/data/Emoji_sentiment_ranking/
-// A curated list representing a range of sentiments.
-export const EMOJI_SENTIMENT_LIST: { emoji: string; score: number }[] = [
-  { emoji: '😡', score: -0.875 },
-  { emoji: '😭', score: -0.803 },
-  { emoji: '😩', score: -0.729 },
-  { emoji: '😒', score: -0.583 },
-  { emoji: '😕', score: -0.422 },
-  { emoji: '😐', score: -0.106 },
-  { emoji: '🤔', score: 0.042 },
-  { emoji: '🙂', score: 0.312 },
-  { emoji: '😊', score: 0.598 },
-  { emoji: '😄', score: 0.762 },
-  { emoji: '😍', score: 0.869 },
-  { emoji: '💖', score: 0.958 },
-].sort((a, b) => a.score - b.score);
+import type { EmojiLexicon, EmojiLexiconEntry, SentimentScore } from './types';
+import bundledLexicon from './data/emojiSentimentLexicon.json';
+
+const CUSTOM_LEXICONS_STORAGE_KEY = 'sentiment-translator:emoji-lexicons';
+
+// Sentiment is what an emoji mainly conveys; intimacy and formality refine the choice between similar ones.
+const MATCH_WEIGHTS = { score: 0.6, intimacy: 0.2, formality: 0.2 };
+
+const readCount = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+const readAxis = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(100, Math.max(0, value)) : fallback;
 
 /**
- * Finds the emoji that best matches a given sentiment score.
- * @param score A sentiment score from -1.0 to 1.0.
+ * Reads an emoji lexicon from parsed JSON. Entries either carry Emoji Sentiment Ranking
+ * counts (`occurrences`, `negative`, `neutral`, `positive`), from which the score is
+ * derived as (positive - negative) / occurrences, or a `score` directly. Intimacy and
+ * formality default to 50 when missing. Malformed entries are skipped.
+ * @param raw The parsed JSON: an object with an `entries` array, or the array itself.
+ * @param fallbackName Used when the lexicon has no `name`, e.g. the file name.
+ * @returns The lexicon.
+ * @throws Error if no usable entry is found.
+ */
+export const parseEmojiLexicon = (raw: unknown, fallbackName = 'Custom lexicon'): EmojiLexicon => {
+  const document = (Array.isArray(raw) ? { entries: raw } : raw ?? {}) as Record<string, unknown>;
+  const entries = (Array.isArray(document.entries) ? document.entries : []).flatMap((item): EmojiLexiconEntry[] => {
+    const entry = (item ?? {}) as Record<string, unknown>;
+    const emoji = typeof entry.emoji === 'string' ? entry.emoji.trim() : '';
+    const occurrences = readCount(entry.occurrences);
+    const negative = readCount(entry.negative);
+    const neutral = readCount(entry.neutral);
+    const positive = readCount(entry.positive);
+    const hasCounts = occurrences && negative !== undefined && neutral !== undefined && positive !== undefined;
+    const score = hasCounts
+      ? (positive - negative) / occurrences
+      : typeof entry.score === 'number' && Number.isFinite(entry.score) ? Math.min(1, Math.max(-1, entry.score)) : undefined;
+    if (!emoji || score === undefined) return [];
+    return [{
+      emoji,
+      name: typeof entry.name === 'string' ? entry.name : undefined,
+      occurrences,
+      negative,
+      neutral,
+      positive,
+      score,
+      intimacy: readAxis(entry.intimacy, 50),
+      formality: readAxis(entry.formality, 50),
+    }];
+  });
+
+  if (entries.length === 0) {
+    throw new Error("The lexicon contains no entries with an emoji and a score or sentiment counts.");
+  }
+  return {
+    id: typeof document.id === 'string' ? document.id : fallbackName,
+    name: typeof document.name === 'string' ? document.name : fallbackName,
+    source: typeof document.source === 'string' ? document.source : undefined,
+    entries,
+  };
+};
+
+export const DEFAULT_EMOJI_LEXICON = parseEmojiLexicon(bundledLexicon);
+
+// The base language is enough to find a lexicon, so one for 'de' also applies to 'de-AT'.
+const baseLanguage = (languageCode: string) => languageCode.split('-')[0].toLowerCase();
+
+const readCustomLexicons = (): Record<string, EmojiLexicon> => {
+  try {
+    return JSON.parse(localStorage.getItem(CUSTOM_LEXICONS_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+let customLexicons: Record<string, EmojiLexicon> = typeof localStorage === 'undefined' ? {} : readCustomLexicons();
+
+/**
+ * Lists the custom lexicons loaded for specific languages.
+ * @returns The lexicons keyed by base language code.
+ */
+export const getCustomEmojiLexicons = (): Record<string, EmojiLexicon> => ({ ...customLexicons });
+
+/**
+ * Uses a custom lexicon for texts in a language, or goes back to the bundled one.
+ * The choice is kept in localStorage.
+ * @param languageCode The language (or culture) the lexicon applies to.
+ * @param lexicon The lexicon, or null to remove the custom one.
+ */
+export const setCustomEmojiLexicon = (languageCode: string, lexicon: EmojiLexicon | null): void => {
+  const key = baseLanguage(languageCode);
+  const { [key]: _removed, ...rest } = customLexicons;
+  customLexicons = lexicon ? { ...rest, [key]: { ...lexicon, language: key } } : rest;
+  try {
+    localStorage.setItem(CUSTOM_LEXICONS_STORAGE_KEY, JSON.stringify(customLexicons));
+  } catch (error) {
+    console.warn("Could not save custom emoji lexicons:", error);
+  }
+};
+
+/**
+ * Picks the lexicon for a language: its custom lexicon if one was loaded, otherwise the bundled one.
+ * @param languageCode The language of the text, if known.
+ * @returns The lexicon to use.
+ */
+export const getEmojiLexicon = (languageCode?: string): EmojiLexicon =>
+  (languageCode && customLexicons[baseLanguage(languageCode)]) || DEFAULT_EMOJI_LEXICON;
+
+/**
+ * Finds where an emoji placed after a fragment of a text should be inserted.
+ * @param text The text to insert into.
+ * @param after The fragment the emoji should follow; empty for the end of the text.
+ * @returns The character offset right after the fragment, or the end of the text if it is not found.
+ */
+export const findEmojiInsertionPoint = (text: string, after: string): number => {
+  const index = after ? text.indexOf(after) : -1;
+  return index === -1 ? text.length : index + after.length;
+};
+
+/**
+ * Inserts an emoji at a character offset, separating it from neighbouring words with a space.
+ * @param text The text to insert into.
+ * @param emoji The emoji to insert.
+ * @param position The character offset, see findEmojiInsertionPoint.
+ * @returns The text with the emoji inserted.
+ */
+export const insertEmoji = (text: string, emoji: string, position: number): string => {
+  const before = text.slice(0, position);
+  const after = text.slice(position);
+  const leading = before && !/\s$/.test(before) ? ' ' : '';
+  const trailing = after && !/^\s/.test(after) ? ' ' : '';
+  return `${before}${leading}${emoji}${trailing}${after}`;
+};
+
+/**
+ * Finds the emoji whose sentiment, intimacy and formality best match a text's,
+ * so that e.g. a formal but warm text does not get a kissing face.
+ * @param sentiment The text's sentiment.
+ * @param languageCode The language of the text, used to pick a custom lexicon.
  * @returns The closest matching emoji character.
  */
-export const getEmojiForScore = (score: number): string => {
-  if (EMOJI_SENTIMENT_LIST.length === 0) {
-    return '🤔'; // Default emoji if list is empty
+export const getEmojiForSentiment = (sentiment: SentimentScore, languageCode?: string): string => {
+  const { entries } = getEmojiLexicon(languageCode);
+  if (entries.length === 0) {
+    return '🤔'; // Default emoji if the lexicon is empty
   }
 
-  // Find the emoji with the smallest absolute difference in score
-  const closest = EMOJI_SENTIMENT_LIST.reduce((prev, curr) => {
-    return (Math.abs(curr.score - score) < Math.abs(prev.score - score) ? curr : prev);
-  });
+  const distance = (entry: EmojiLexiconEntry) =>
+    MATCH_WEIGHTS.score * ((entry.score - sentiment.score) / 2) ** 2 +
+    MATCH_WEIGHTS.intimacy * ((entry.intimacy - sentiment.intimacy) / 100) ** 2 +
+    MATCH_WEIGHTS.formality * ((entry.formality - sentiment.formality) / 100) ** 2;
 
-  return closest.emoji;
+  return entries.reduce((prev, curr) => (distance(curr) < distance(prev) ? curr : prev)).emoji;
 };
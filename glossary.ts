@@ -0,0 +1,218 @@
+import type { GlossaryEntry, GlossaryViolation } from './types';
+import { parseCsvRecords } from './csv';
+
+const GLOSSARIES_STORAGE_KEY = 'sentiment-translator:glossaries';
+
+const readGlossaries = (): Record<string, GlossaryEntry[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(GLOSSARIES_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+let glossaries: Record<string, GlossaryEntry[]> = typeof localStorage === 'undefined' ? {} : readGlossaries();
+
+const pairKey = (sourceCode: string, targetCode: string) => `${sourceCode}>${targetCode}`;
+
+/**
+ * The glossary of a language pair. Glossaries are directional: en→ko and ko→en are separate.
+ * @param sourceCode The source language tag.
+ * @param targetCode The target language tag.
+ * @returns The entries, empty if the pair has no glossary.
+ */
+export const getGlossary = (sourceCode: string, targetCode: string): GlossaryEntry[] =>
+  glossaries[pairKey(sourceCode, targetCode)] ?? [];
+
+/**
+ * Replaces the glossary of a language pair. Glossaries are kept in localStorage.
+ * @param sourceCode The source language tag.
+ * @param targetCode The target language tag.
+ * @param entries The entries; an empty list removes the glossary.
+ */
+export const setGlossary = (sourceCode: string, targetCode: string, entries: GlossaryEntry[]): void => {
+  const key = pairKey(sourceCode, targetCode);
+  const { [key]: _removed, ...rest } = glossaries;
+  glossaries = entries.length > 0 ? { ...rest, [key]: entries } : rest;
+  try {
+    localStorage.setItem(GLOSSARIES_STORAGE_KEY, JSON.stringify(glossaries));
+  } catch (error) {
+    console.warn("Could not save glossaries:", error);
+  }
+};
+
+/**
+ * Whether an entry asks for its term to be kept as is.
+ * @param entry The entry.
+ */
+export const isDoNotTranslate = (entry: GlossaryEntry): boolean =>
+  entry.caseSensitive ? entry.translation === entry.term : entry.translation.toLowerCase() === entry.term.toLowerCase();
+
+/**
+ * Builds a glossary entry, treating a missing translation as do-not-translate.
+ * @param term The term in the source language.
+ * @param translation The required translation, or empty to keep the term.
+ * @param notes Guidance for the translator.
+ * @param caseSensitive Whether the term only matches with this exact casing.
+ * @returns The entry.
+ */
+export const createGlossaryEntry = (term: string, translation = '', notes = '', caseSensitive = false): GlossaryEntry => ({
+  id: crypto.randomUUID(),
+  term: term.trim(),
+  translation: translation.trim() || term.trim(),
+  notes: notes.trim() || undefined,
+  caseSensitive,
+});
+
+// Entries that match the same occurrences share a key: case-sensitive ones only with the exact casing.
+const getTermKey = (entry: GlossaryEntry): string =>
+  entry.caseSensitive ? `exact:${entry.term}` : `any:${entry.term.toLowerCase()}`;
+
+/**
+ * Adds imported entries to a glossary; an imported term replaces an existing entry for the same
+ * term and case sensitivity, so e.g. a case-sensitive "Apple" can sit beside a plain "apple".
+ * @param existing The current entries.
+ * @param imported The entries to add.
+ * @returns The merged entries.
+ */
+export const mergeGlossaryEntries = (existing: GlossaryEntry[], imported: GlossaryEntry[]): GlossaryEntry[] => {
+  const importedTerms = new Set(imported.map(getTermKey));
+  return [...existing.filter(e => !importedTerms.has(getTermKey(e))), ...imported];
+};
+
+const TRUE_VALUES = ['1', 'true', 'yes', 'y', 'x'];
+
+/**
+ * Reads a glossary from CSV with a header row. The term is taken from a `term` or
+ * `source` column (or the first column), the translation from `translation` or
+ * `target` (or the second; empty means do-not-translate), plus optional `notes`
+ * and `case_sensitive` columns.
+ * @param text The CSV text.
+ * @returns The entries.
+ * @throws Error if no row has a term.
+ */
+export const parseGlossaryCsv = (text: string): GlossaryEntry[] => {
+  const records = parseCsvRecords(text);
+  const pick = (record: Record<string, string>, names: string[], index: number) =>
+    record[names.find(n => n in record) ?? Object.keys(record)[index]] ?? '';
+  const entries = records
+    .map(record => createGlossaryEntry(
+      pick(record, ['term', 'source'], 0),
+      pick(record, ['translation', 'target'], 1),
+      record.notes ?? record.note ?? '',
+      TRUE_VALUES.includes((record.case_sensitive ?? record.caseSensitive ?? '').trim().toLowerCase())
+    ))
+    .filter(e => e.term);
+  if (entries.length === 0) {
+    throw new Error("The CSV has no terms. It needs a header row and a term column.");
+  }
+  return entries;
+};
+
+// TBX v3 is namespaced and renames some elements (termEntry → conceptEntry, langSet → langSec),
+// so elements are matched by local name and both spellings are accepted.
+const childrenNamed = (parent: Element, name: string): Element[] =>
+  Array.from(parent.getElementsByTagName('*')).filter(el => el.localName === name);
+
+const matchesLanguage = (tag: string | null, code: string) =>
+  Boolean(tag) && (tag!.toLowerCase() === code.toLowerCase() || tag!.split('-')[0].toLowerCase() === code.split('-')[0].toLowerCase());
+
+/**
+ * Reads a glossary for one language pair from a TBX (TermBase eXchange) file.
+ * Each term entry contributes its first source-language term, paired with its first
+ * target-language term; entries without a target term become do-not-translate terms.
+ * Notes are taken from definition, note and usage descriptions.
+ * @param xml The TBX document.
+ * @param sourceCode The source language tag.
+ * @param targetCode The target language tag.
+ * @returns The entries.
+ * @throws Error if the file is not XML or has no term for the source language.
+ */
+export const parseGlossaryTbx = (xml: string, sourceCode: string, targetCode: string): GlossaryEntry[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("The TBX file is not well-formed XML.");
+  }
+  const conceptEntries = Array.from(doc.getElementsByTagName('*'))
+    .filter(el => el.localName === 'termEntry' || el.localName === 'conceptEntry');
+  const entries = conceptEntries.flatMap(concept => {
+    const langSets = [...childrenNamed(concept, 'langSet'), ...childrenNamed(concept, 'langSec')];
+    const lang = (el: Element) => el.getAttribute('xml:lang') ?? el.getAttribute('lang');
+    const termIn = (code: string) => {
+      const langSet = langSets.find(el => matchesLanguage(lang(el), code));
+      return langSet ? childrenNamed(langSet, 'term')[0]?.textContent?.trim() ?? '' : '';
+    };
+    const term = termIn(sourceCode);
+    if (!term) return [];
+    const notes = [...childrenNamed(concept, 'descrip'), ...childrenNamed(concept, 'note')]
+      .map(el => el.textContent?.trim())
+      .filter(Boolean)
+      .join(' ');
+    return [createGlossaryEntry(term, termIn(targetCode), notes)];
+  });
+  if (entries.length === 0) {
+    throw new Error(`The TBX file has no ${sourceCode} terms.`);
+  }
+  return entries;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Scripts that separate words with spaces; a term in them must not match inside a longer word.
+// Elsewhere (e.g. Korean particles, Japanese and Chinese) terms attach directly to what follows.
+const SPACED_WORD_CHARACTERS = '\\p{Script=Latin}\\p{Script=Cyrillic}\\p{Script=Greek}\\d';
+const SPACED_WORD_CHARACTER = new RegExp(`[${SPACED_WORD_CHARACTERS}]`, 'u');
+
+/**
+ * Finds every occurrence of a term in a text.
+ * @param text The text to search.
+ * @param term The term.
+ * @param caseSensitive Whether casing must match.
+ * @returns The character ranges of the occurrences, in order.
+ */
+export const findTermOccurrences = (text: string, term: string, caseSensitive: boolean): { start: number; end: number }[] => {
+  if (!term) return [];
+  const before = SPACED_WORD_CHARACTER.test(term[0]) ? `(?<![${SPACED_WORD_CHARACTERS}])` : '';
+  const after = SPACED_WORD_CHARACTER.test(term[term.length - 1]) ? `(?![${SPACED_WORD_CHARACTERS}])` : '';
+  const pattern = new RegExp(`${before}${escapeRegExp(term)}${after}`, caseSensitive ? 'gu' : 'giu');
+  return Array.from(text.matchAll(pattern), m => ({ start: m.index!, end: m.index! + m[0].length }));
+};
+
+/**
+ * The entries whose terms occur in a text, i.e. those worth sending with a request for it.
+ * @param text The source text.
+ * @param entries The glossary.
+ * @returns The relevant entries.
+ */
+export const selectGlossaryEntries = (text: string, entries: GlossaryEntry[]): GlossaryEntry[] =>
+  entries.filter(e => findTermOccurrences(text, e.term, e.caseSensitive).length > 0);
+
+/**
+ * Checks a translation against a glossary: every occurrence of a term in the source
+ * needs an occurrence of its required translation.
+ * @param sourceText The original text.
+ * @param translatedText The translation.
+ * @param entries The glossary.
+ * @returns One violation per term that is rendered fewer times than it occurs.
+ */
+export const checkGlossary = (sourceText: string, translatedText: string, entries: GlossaryEntry[]): GlossaryViolation[] =>
+  entries.flatMap(entry => {
+    const expected = findTermOccurrences(sourceText, entry.term, entry.caseSensitive).length;
+    if (expected === 0) return [];
+    const found = findTermOccurrences(translatedText, entry.translation, entry.caseSensitive).length;
+    return found < expected ? [{ entry, expected, found }] : [];
+  });
+
+/**
+ * Replaces every glossary term in a text with its required translation. Used by the
+ * offline provider, whose placeholder translations keep the source wording.
+ * @param text The text.
+ * @param entries The glossary.
+ * @returns The text with the terms replaced.
+ */
+export const applyGlossary = (text: string, entries: GlossaryEntry[]): string =>
+  entries.reduce((result, entry) =>
+    findTermOccurrences(result, entry.term, entry.caseSensitive)
+      .reverse()
+      .reduce((replaced, { start, end }) => replaced.slice(0, start) + entry.translation + replaced.slice(end), result),
+    text);
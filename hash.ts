@@ -0,0 +1,9 @@
+/**
+ * Computes the SHA-256 digest of a string as lowercase hex.
+ * @param text The text to hash.
+ * @returns A promise resolving to the 64-character hex digest.
+ */
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+};
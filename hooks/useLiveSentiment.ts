@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import type { SentimentScore, TranslationProvider } from '../types';
+import { classifyError } from '../services/errors';
+import { getSentimentWithFallback } from '../services/sentimentFallback';
+
+const LIVE_ANALYSIS_DELAY_MS = 800;
+
+interface LiveSentimentOptions {
+  enabled?: boolean; // While false, nothing is requested and the last score is kept
+  delayMs?: number; // Quiet period after the last edit before a request is sent
+  languageCode?: string; // Lets a failed request fall back to the lexicon scorer
+}
+
+/**
+ * Scores a text in the background while it is being edited. A request is only sent
+ * once the text has stopped changing for a moment, and a request for text that has
+ * since changed is cancelled so that a stale score never replaces a newer one.
+ * If the provider fails and the language is known, the lexicon scorer fills in.
+ * @param provider The provider used for scoring.
+ * @param text The text to score.
+ * @param options Whether live analysis is enabled and the debounce delay.
+ * @returns The latest score (null for empty text), the text it belongs to, whether it is a
+ *   lexicon fallback and whether a request is running.
+ */
+export const useLiveSentiment = (
+  provider: TranslationProvider,
+  text: string,
+  { enabled = true, delayMs = LIVE_ANALYSIS_DELAY_MS, languageCode }: LiveSentimentOptions = {}
+): { sentiment: SentimentScore | null; scoredText: string; isFallback: boolean; isAnalyzing: boolean } => {
+  const [result, setResult] = useState<{ sentiment: SentimentScore | null; scoredText: string; isFallback: boolean }>({
+    sentiment: null,
+    scoredText: '',
+    isFallback: false,
+  });
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    if (!text.trim()) {
+      setResult({ sentiment: null, scoredText: text, isFallback: false });
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsAnalyzing(true);
+      try {
+        const options = { signal: controller.signal };
+        const { sentiment, isFallback } = languageCode
+          ? await getSentimentWithFallback(provider, text, languageCode, options)
+          : { sentiment: await provider.getSentiment(text, options), isFallback: false };
+        // A cache hit can resolve even after the request was superseded.
+        if (!controller.signal.aborted) setResult({ sentiment, scoredText: text, isFallback });
+      } catch (error) {
+        // Live analysis is a background aid, so failures are logged rather than shown.
+        if (classifyError(error).kind !== 'cancelled') {
+          console.warn("Live sentiment analysis failed:", error);
+        }
+      } finally {
+        if (!controller.signal.aborted) setIsAnalyzing(false);
+      }
+    }, delayMs);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+      setIsAnalyzing(false);
+    };
+  }, [provider, text, enabled, delayMs, languageCode]);
+
+  return { ...result, isAnalyzing };
+};
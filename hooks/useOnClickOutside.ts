@@ -0,0 +1,26 @@
+import { useEffect, type RefObject } from 'react';
+
+/**
+ * Calls a handler when the user clicks or taps outside an element, e.g. to close a popup.
+ * @param ref The element that counts as inside.
+ * @param handler Called with the outside event.
+ */
+export const useOnClickOutside = <T extends HTMLElement,>(
+  ref: RefObject<T>,
+  handler: (event: MouseEvent | TouchEvent) => void
+) => {
+  useEffect(() => {
+    const listener = (event: MouseEvent | TouchEvent) => {
+      if (!ref.current || ref.current.contains(event.target as Node)) {
+        return;
+      }
+      handler(event);
+    };
+    document.addEventListener("mousedown", listener);
+    document.addEventListener("touchstart", listener);
+    return () => {
+      document.removeEventListener("mousedown", listener);
+      document.removeEventListener("touchstart", listener);
+    };
+  }, [ref, handler]);
+};
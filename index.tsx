@@ -2,15 +2,21 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { SharedReportView } from './components/SharedReportView';
+import { SHARED_REPORT_HASH_PREFIX } from './report';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// A share link carries its report in the URL fragment and opens it read-only instead of the editor.
+const hash = window.location.hash;
+const sharedReport = hash.startsWith(SHARED_REPORT_HASH_PREFIX) ? hash.slice(SHARED_REPORT_HASH_PREFIX.length) : null;
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {sharedReport ? <SharedReportView encoded={sharedReport} /> : <App />}
   </React.StrictMode>
 );
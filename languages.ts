@@ -0,0 +1,174 @@
+import type { Language, LanguageDetection } from './types';
+import { SUPPORTED_LANGUAGES } from './constants';
+
+const CUSTOM_LANGUAGES_STORAGE_KEY = 'sentiment-translator:languages';
+
+const displayNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+/**
+ * Canonicalizes a BCP-47 language tag, e.g. "PT-br" becomes "pt-BR".
+ * @param tag The tag as typed.
+ * @returns The canonical tag, or null if it is not a well-formed tag.
+ */
+export const normalizeLanguageTag = (tag: string): string | null => {
+  try {
+    return Intl.getCanonicalLocales(tag.trim())[0] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const readCustomLanguages = (): Language[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_LANGUAGES_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+let customLanguages: Language[] = typeof localStorage === 'undefined' ? [] : readCustomLanguages();
+
+const saveCustomLanguages = () => {
+  try {
+    localStorage.setItem(CUSTOM_LANGUAGES_STORAGE_KEY, JSON.stringify(customLanguages));
+  } catch (error) {
+    console.warn("Could not save custom languages:", error);
+  }
+};
+
+/**
+ * Lists every language that can be picked: the built-in ones, then those added by the user.
+ * @returns The languages.
+ */
+export const getLanguages = (): Language[] => [...SUPPORTED_LANGUAGES, ...customLanguages];
+
+/**
+ * Whether a language was added by the user rather than built in.
+ * @param code The language tag.
+ */
+export const isCustomLanguage = (code: string): boolean => customLanguages.some(l => l.code === code);
+
+/**
+ * Names a language tag in English, e.g. "pt-BR" becomes "Brazilian Portuguese".
+ * @param code The language tag.
+ * @returns The name of a known language, the display name, or the tag itself if neither exists.
+ */
+export const getLanguageName = (code: string): string => {
+  const known = getLanguages().find(l => l.code === code);
+  if (known) return known.name;
+  try {
+    return displayNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+};
+
+/**
+ * Turns a language tag into a Language, reusing a known entry when there is one.
+ * @param tag Any well-formed BCP-47 tag.
+ * @returns The language.
+ * @throws Error if the tag is not well-formed.
+ */
+export const toLanguage = (tag: string): Language => {
+  const code = normalizeLanguageTag(tag);
+  if (!code) {
+    throw new Error(`"${tag}" is not a valid BCP-47 language tag.`);
+  }
+  return getLanguages().find(l => l.code === code) ?? { code, name: getLanguageName(code) };
+};
+
+/**
+ * Makes a language pickable from now on. The list is kept in localStorage.
+ * @param tag Any well-formed BCP-47 tag.
+ * @returns The added language, or the existing entry if it was already available.
+ * @throws Error if the tag is not well-formed.
+ */
+export const addCustomLanguage = (tag: string): Language => {
+  const language = toLanguage(tag);
+  if (!getLanguages().some(l => l.code === language.code)) {
+    customLanguages = [...customLanguages, language];
+    saveCustomLanguages();
+  }
+  return language;
+};
+
+/**
+ * Removes a language the user added; built-in languages cannot be removed.
+ * @param code The language tag.
+ */
+export const removeCustomLanguage = (code: string): void => {
+  customLanguages = customLanguages.filter(l => l.code !== code);
+  saveCustomLanguages();
+};
+
+/**
+ * Finds languages whose name or tag contains the query, ignoring case.
+ * @param query The search text; empty matches everything.
+ * @returns The matching languages.
+ */
+export const searchLanguages = (query: string): Language[] => {
+  const needle = query.trim().toLowerCase();
+  return getLanguages().filter(l => !needle || l.name.toLowerCase().includes(needle) || l.code.toLowerCase().includes(needle));
+};
+
+// Scripts used (almost) by a single language identify it on their own.
+const SCRIPT_LANGUAGES: { pattern: RegExp; code: string }[] = [
+  { pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu, code: 'ja' },
+  { pattern: /\p{Script=Hangul}/gu, code: 'ko' },
+  { pattern: /\p{Script=Thai}/gu, code: 'th' },
+  { pattern: /\p{Script=Han}/gu, code: 'zh' },
+  { pattern: /\p{Script=Greek}/gu, code: 'el' },
+  { pattern: /\p{Script=Hebrew}/gu, code: 'he' },
+  { pattern: /\p{Script=Arabic}/gu, code: 'ar' },
+  { pattern: /\p{Script=Devanagari}/gu, code: 'hi' },
+  { pattern: /\p{Script=Cyrillic}/gu, code: 'ru' },
+];
+
+// Frequent function words of Latin-script languages.
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'you', 'to', 'of', 'it', 'i', 'that', 'are', 'what', 'have', 'this', 'with'],
+  es: ['el', 'la', 'que', 'de', 'y', 'es', 'los', 'en', 'por', 'un', 'una', 'está', 'qué', 'con', 'te', 'me', 'muy', 'mi'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'de', 'que', 'je', 'tu', 'un', 'une', 'vous', 'pas', 'avec'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'ich', 'du', 'nicht', 'ein', 'eine', 'sie', 'mit', 'auch', 'doch'],
+  pt: ['o', 'a', 'que', 'de', 'e', 'é', 'não', 'um', 'uma', 'os', 'você', 'com', 'para', 'está'],
+  it: ['il', 'la', 'che', 'di', 'e', 'è', 'non', 'un', 'una', 'sono', 'per', 'con', 'ciao', 'gli'],
+};
+
+// Letters and punctuation that (among these languages) only one of them uses.
+const DISTINCTIVE_CHARACTERS: Record<string, RegExp> = {
+  es: /[ñ¿¡]/g,
+  de: /[ßäöü]/g,
+  fr: /[çœèêë]/g,
+  pt: /[ãõ]/g,
+};
+
+/**
+ * Guesses a text's language from its script and, for Latin script, from common
+ * function words and distinctive letters. Used offline; the remote providers ask the model instead.
+ * @param text The text.
+ * @returns The guess with a rough confidence, or null if the text has no letters.
+ */
+export const guessLanguage = (text: string): LanguageDetection | null => {
+  const letters = (text.match(/\p{L}/gu) ?? []).length;
+  if (letters === 0) return null;
+
+  // Japanese mixes kana with Han characters, so kana wins over Han whenever present.
+  for (const { pattern, code } of SCRIPT_LANGUAGES) {
+    const count = (text.match(pattern) ?? []).length;
+    if (count / letters > 0.3 || (code === 'ja' && count > 0)) {
+      return { language: toLanguage(code), confidence: Math.min(0.95, 0.5 + count / letters / 2) };
+    }
+  }
+
+  const lower = text.toLowerCase();
+  const words = lower.match(/\p{L}+/gu) ?? [];
+  const countDistinctive = (code: string) =>
+    DISTINCTIVE_CHARACTERS[code] ? (lower.match(DISTINCTIVE_CHARACTERS[code]) ?? []).length : 0;
+  const hits = Object.entries(STOPWORDS)
+    .map(([code, stopwords]) => ({ code, count: words.filter(w => stopwords.includes(w)).length + countDistinctive(code) }))
+    .sort((a, b) => b.count - a.count);
+  const total = hits.reduce((sum, h) => sum + h.count, 0);
+  if (total === 0) return { language: toLanguage('en'), confidence: 0.2 };
+  return { language: toLanguage(hits[0].code), confidence: Math.round((hits[0].count / total) * 0.9 * 100) / 100 };
+};
@@ -0,0 +1,227 @@
+import type { SentimentScore } from './types';
+import { detectModalParticles } from './particles';
+import { DEFAULT_EMOJI_LEXICON } from './emoji';
+import { findTermOccurrences } from './glossary';
+
+// Bump whenever the word lists or weights change, so that stored baseline scores stay comparable.
+export const LEXICON_SCORER_VERSION = '2';
+
+interface LanguageLexicon {
+  // Whole words for languages written with spaces, where a trailing * marks a stem
+  // ("annoy*" matches "annoyed"); substrings for the others.
+  positive: string[];
+  negative: string[];
+  intensifiers: string[];
+  negators: string[];
+  negation: 'before' | 'after'; // Where a negator sits relative to the word it negates
+  formal: string[];
+  informal: string[];
+  intimate: string[];
+  exceptions?: string[]; // Substring languages only: words that contain a term without carrying its meaning
+}
+
+// Small hand-curated lists: enough for a transparent, reproducible baseline, not a replacement for the model.
+const LEXICONS: Record<string, LanguageLexicon> = {
+  en: {
+    positive: ['love*', 'great', 'good', 'happy', 'happier', 'happiest', 'happiness', 'glad', 'wonderful', 'amazing', 'amazed', 'awesome', 'nice', 'thank*', 'beautiful', 'excellent', 'enjoy*', 'fantastic', 'delight*', 'pleased', 'kind', 'sweet', 'fun', 'best', 'perfect', 'congrat*', 'welcome'],
+    negative: ['hate*', 'bad', 'badly', 'sad', 'sadly', 'angry', 'terrible', 'awful', 'horrible', 'worst', 'annoy*', 'upset', 'sorry', 'disappoint*', 'fail*', 'problem*', 'wrong', 'hurt*', 'afraid', 'worr*', 'tired', 'sick', 'boring', 'bored', 'stupid', 'ugly'],
+    intensifiers: ['very', 'really', 'so', 'extremely', 'totally', 'absolutely', 'incredibly', 'super', 'too'],
+    negators: ['not', 'no', 'never', 'nothing', 'hardly', 'without', "don't", "doesn't", "didn't", "isn't", "wasn't", "aren't", "can't", "won't", "couldn't", "wouldn't"],
+    negation: 'before',
+    formal: ['dear', 'sincerely', 'regards', 'kindly', 'please', 'would', 'could', 'therefore', 'however', 'furthermore', 'mr', 'ms', 'madam', 'sir', 'respectfully'],
+    informal: ['hey', 'yeah', 'gonna', 'wanna', 'gotta', 'lol', 'omg', 'cool', 'yo', 'dude', 'guys', 'btw', 'ok'],
+    intimate: ['honey', 'sweetheart', 'darling', 'babe', 'baby', 'buddy', 'love', 'miss', 'missed', 'hug', 'hugs', 'xoxo', 'dear'],
+  },
+  es: {
+    positive: ['amor', 'amo', 'quiero', 'feliz', 'alegr*', 'bueno', 'buena', 'genial', 'maravill*', 'gracias', 'bonit*', 'hermos*', 'excelente', 'encant*', 'perfect*', 'divert*', 'bienvenid*', 'mejor'],
+    negative: ['odio', 'malo', 'mala', 'triste*', 'enfad*', 'enoj*', 'terrible', 'horrible', 'peor', 'molest*', 'lo siento', 'decepcion*', 'problema*', 'miedo', 'preocup*', 'cansad*', 'aburrid*', 'feo', 'fea'],
+    intensifiers: ['muy', 'mucho', 'muchísimo', 'tan', 'súper', 'totalmente', 'realmente', 'demasiado'],
+    negators: ['no', 'nunca', 'jamás', 'nada', 'sin', 'tampoco'],
+    negation: 'before',
+    formal: ['usted', 'ustedes', 'estimad*', 'atentamente', 'señor', 'señora', 'le ruego', 'cordialmente', 'por favor'],
+    informal: ['oye', 'vale', 'tío', 'tía', 'guay', 'jaja*', 'qué onda', 'chido'],
+    intimate: ['cariño', 'mi amor', 'querid*', 'corazón', 'cielo', 'besos', 'abrazo*', 'te quiero', 'te extraño'],
+  },
+  fr: {
+    positive: ['aime*', 'aimé*', 'amour*', 'heureu*', 'content*', 'bien', 'bon', 'bonne', 'génial*', 'merveill*', 'merci', 'beau', 'belle', 'excellent*', 'super', 'parfait*', 'ravi', 'ravie', 'plaisir', 'bienvenue', 'meilleur*'],
+    negative: ['déteste*', 'haine', 'mauvais*', 'triste*', 'fâché*', 'colère', 'terrible*', 'horrible*', 'pire', 'ennuy*', 'désolé*', 'déçu*', 'problème*', 'peur', 'inquiet*', 'fatigué*', 'nul', 'nulle', 'moche*'],
+    intensifiers: ['très', 'vraiment', 'trop', 'tellement', 'si', 'super', 'extrêmement', 'absolument'],
+    negators: ['ne', "n'", 'pas', 'jamais', 'rien', 'sans', 'aucun'],
+    negation: 'before',
+    formal: ['vous', 'monsieur', 'madame', 'veuillez', 'cordialement', 'salutations', 'je vous prie', "s'il vous plaît"],
+    informal: ['salut', 'ouais', 'mec', 'truc', 'sympa', 'mdr', 'lol', 'ben', 'cool'],
+    intimate: ['chéri*', 'mon cœur', 'mon amour', 'bisous', 'tu me manques', 'ma puce', 'câlin*', 'je t\'aime'],
+  },
+  de: {
+    positive: ['lieb*', 'glücklich*', 'froh*', 'gut', 'gute', 'guter', 'gutes', 'toll*', 'super', 'wunderbar*', 'danke*', 'schön*', 'ausgezeichnet*', 'freue', 'freut', 'freuen', 'freude', 'perfekt*', 'spaß', 'herzlich*', 'willkommen'],
+    negative: ['hass*', 'schlecht*', 'traurig*', 'wütend*', 'ärger*', 'schrecklich*', 'furchtbar*', 'schlimm*', 'nerv*', 'leider', 'enttäusch*', 'problem*', 'angst', 'sorge*', 'müde', 'langweil*', 'hässlich*', 'entschuldig*'],
+    intensifiers: ['sehr', 'wirklich', 'so', 'total', 'echt', 'extrem', 'absolut', 'voll', 'zu'],
+    negators: ['nicht', 'kein', 'nie', 'niemals', 'nichts', 'ohne'],
+    negation: 'before',
+    formal: ['ihnen', 'sehr geehrte', 'mit freundlichen', 'grüße', 'bitte', 'würden', 'könnten', 'herr', 'frau'],
+    informal: ['hey', 'na', 'krass', 'geil', 'alter', 'digga', 'jo', 'cool', 'ne'],
+    intimate: ['schatz', 'liebling', 'süße', 'mein herz', 'kuss', 'küsschen', 'vermisse', 'hab dich lieb', 'umarmung'],
+  },
+  ko: {
+    positive: ['사랑', '좋', '행복', '기쁘', '기뻐', '감사', '고마', '고맙', '최고', '멋지', '멋있', '예쁘', '예뻐', '재미있', '재밌', '반가', '축하', '훌륭'],
+    negative: ['싫어', '싫다', '미워', '슬프', '슬퍼', '화나', '짜증', '최악', '나쁘', '나빠', '실망', '문제', '무서', '걱정', '피곤', '지루', '힘들', '아프', '죄송', '미안'],
+    intensifiers: ['너무', '정말', '진짜', '아주', '완전', '엄청', '매우', '되게', '몹시'],
+    negators: ['지 않', '지 못', '지않', '지못', '없'],
+    negation: 'after',
+    formal: ['니다', '니까', '십시오', '께서', '드려요', '시겠'], // 니다 covers 습니다, 입니다 and 합니다
+    informal: ['ㅋㅋ', 'ㅎㅎ', '거야', '했어', '니?', '냐?'],
+    intimate: ['자기', '여보', '오빠', '언니', '누나', '형', '보고 싶', '보고싶', '사랑해'],
+  },
+  ja: {
+    positive: ['好き', '愛', '嬉し', 'うれし', '楽し', '幸せ', 'ありがとう', '感謝', '最高', '素晴らし', 'すばらし', '素敵', 'すてき', 'きれい', '綺麗', '可愛', 'かわい', 'おめでとう', '良い'],
+    negative: ['嫌い', 'きらい', '悲し', '怒', '最悪', '悪い', 'つまらな', '残念', '問題', '怖', 'こわ', '心配', '疲れ', '辛', 'つら', '痛', 'すみません', 'ごめん', '寂し', 'さびし'],
+    intensifiers: ['とても', 'すごく', '本当に', 'ほんとに', '超', 'めっちゃ', '大変', '非常に', 'かなり'],
+    negators: ['ない', 'ません', 'なかった'],
+    negation: 'after',
+    formal: ['です', 'ます', 'ございます', 'いただ', 'くださ', '申し', 'お願いいたします', '様', '存じ'],
+    informal: ['だよ', 'じゃん', 'よね', 'ちゃう', 'って', '笑'],
+    intimate: ['ちゃん', 'くん', '大好き', '会いたい', 'ハグ', 'ダーリン', 'ね〜'],
+  },
+  th: {
+    positive: ['รัก', 'ดี', 'สุข', 'ขอบคุณ', 'ชอบ', 'สวย', 'น่ารัก', 'เยี่ยม', 'สนุก', 'ยินดี', 'เก่ง', 'สุดยอด', 'ประทับใจ'],
+    negative: ['เกลียด', 'เศร้า', 'โกรธ', 'แย่', 'เสียใจ', 'ผิดหวัง', 'ปัญหา', 'กลัว', 'เหนื่อย', 'เบื่อ', 'เจ็บ', 'ขอโทษ', 'รำคาญ', 'เหงา'],
+    intensifiers: ['มาก', 'จริงๆ', 'สุดๆ', 'ที่สุด', 'โคตร', 'เหลือเกิน', 'ทีเดียว'],
+    negators: ['ไม่', 'ไม่ได้', 'ไม่มี', 'อย่า'],
+    negation: 'before',
+    formal: ['กรุณา', 'ท่าน', 'ขอแสดง', 'ด้วยความเคารพ', 'เรียน', 'ดิฉัน', 'กระผม'],
+    informal: ['555', 'ว่ะ', 'เว้ย', 'มึง'],
+    intimate: ['ที่รัก', 'คิดถึง', 'จุ๊บ', 'กอด', 'เธอ', 'ตัวเอง'],
+  },
+  zh: {
+    positive: ['爱', '喜欢', '开心', '高兴', '快乐', '幸福', '谢谢', '感谢', '好', '棒', '美', '漂亮', '可爱', '优秀', '精彩', '欢迎', '祝贺', '完美'],
+    negative: ['恨', '讨厌', '难过', '伤心', '生气', '糟糕', '坏', '失望', '问题', '害怕', '担心', '累', '无聊', '痛', '对不起', '抱歉', '烦', '差'],
+    intensifiers: ['很', '非常', '太', '真', '特别', '超', '极'],
+    negators: ['不', '没', '别', '无'],
+    negation: 'before',
+    formal: ['您', '敬请', '此致', '敬礼', '阁下', '请问', '尊敬'],
+    informal: ['哈哈', '啦', '嘛', '呗', '哥们', '靠'],
+    intimate: ['亲爱的', '宝贝', '想你', '抱抱', '么么', '亲亲', '老公', '老婆'],
+    exceptions: ['美国', '美元', '美金', '美洲', '差不多', '差点', '出差', '时差', '好像', '只好', '不好意思'],
+  },
+};
+
+// Languages written without spaces are matched by substring rather than by word.
+const SUBSTRING_LANGUAGES = new Set(['ko', 'ja', 'th', 'zh']);
+// How far a negator or intensifier may be from the word it modifies: in words, or in characters beyond the modifier.
+const MODIFIER_WINDOW = { words: 3, characters: 6 };
+const INTENSIFIER_BOOST = 1.5;
+const NEGATION_FACTOR = -0.5; // "not good" is milder than "bad"
+const NORMALIZATION_ALPHA = 15; // As in VADER: how quickly the summed valence saturates towards ±1
+const EXCLAMATION_BOOST = 0.05;
+const MARKER_WEIGHT = 10;
+const EMOJI_WEIGHT = 0.3;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+interface Match {
+  term: string;
+  index: number; // Word index, or character offset for substring languages
+}
+
+const findSubstrings = (text: string, terms: string[]): Match[] =>
+  terms.flatMap(term => {
+    const matches: Match[] = [];
+    for (let i = text.indexOf(term); i !== -1; i = text.indexOf(term, i + term.length)) {
+      matches.push({ term, index: i });
+    }
+    return matches;
+  });
+
+const matchesWord = (word: string, term: string) =>
+  term.endsWith('*') ? word.startsWith(term.slice(0, -1)) : word === term;
+
+const findWords = (words: string[], terms: string[]): Match[] =>
+  words.flatMap((word, index) => {
+    const term = terms.find(t => matchesWord(word, t));
+    return term ? [{ term, index }] : [];
+  });
+
+/**
+ * Scores a text without any model, from word lists, modal particles, emojis and
+ * punctuation. The result is deterministic for a given LEXICON_SCORER_VERSION,
+ * which makes it usable as a reproducible baseline and as a fallback.
+ * Languages without a word list are scored from emojis, particles and punctuation only.
+ * @param text The text to score.
+ * @param languageCode The language of the text.
+ * @returns The estimated sentiment, intimacy and formality.
+ */
+export const scoreWithLexicon = (text: string, languageCode: string): SentimentScore => {
+  const lower = text.toLowerCase();
+  const language = languageCode.split('-')[0].toLowerCase();
+  const lexicon = LEXICONS[language];
+  const isSubstring = SUBSTRING_LANGUAGES.has(language);
+  const words = isSubstring
+    ? []
+    : Array.from(new Intl.Segmenter(language, { granularity: 'word' }).segment(lower))
+        .filter(s => s.isWordLike)
+        .map(s => s.segment);
+  // Character ranges of words such as 美国 (America) that contain a term but do not mean it.
+  const excluded = findSubstrings(lower, lexicon?.exceptions ?? []).map(m => ({ start: m.index, end: m.index + m.term.length }));
+  const isExcluded = (m: Match) => excluded.some(r => m.index >= r.start && m.index + m.term.length <= r.end);
+  // Multi-word terms ("mon amour") cannot match a single word, so they are looked up in the text.
+  const find = (terms: string[]): Match[] => isSubstring
+    ? findSubstrings(lower, terms).filter(m => !isExcluded(m))
+    : findWords(words, terms.filter(t => !t.includes(' ')));
+  const countPhrases = (terms: string[]) =>
+    terms.filter(t => t.includes(' ')).reduce((sum, t) => sum + findTermOccurrences(lower, t, false).length, 0);
+  const count = (terms: string[]) => find(terms).length + (isSubstring ? 0 : countPhrases(terms));
+  // Whether `modifier` comes shortly before `target`.
+  const precedes = (modifier: Match, target: Match) => {
+    const distance = target.index - modifier.index;
+    return distance > 0 && distance <= (isSubstring ? modifier.term.length + MODIFIER_WINDOW.characters : MODIFIER_WINDOW.words);
+  };
+
+  let valence = 0;
+  let intimacy = 50;
+  let formality = 50;
+
+  if (lexicon) {
+    const negators = find(lexicon.negators);
+    const intensifiers = find(lexicon.intensifiers);
+    const polarity = [
+      ...find(lexicon.positive).map(m => ({ ...m, value: 1 })),
+      ...find(lexicon.negative).map(m => ({ ...m, value: -1 })),
+    ];
+    for (const match of polarity) {
+      let value = match.value;
+      if (intensifiers.some(i => precedes(i, match))) value *= INTENSIFIER_BOOST;
+      const isNegated = negators.some(n => lexicon.negation === 'before' ? precedes(n, match) : precedes(match, n));
+      if (isNegated) value *= NEGATION_FACTOR;
+      valence += value;
+    }
+    formality += MARKER_WEIGHT * (count(lexicon.formal) - count(lexicon.informal));
+    intimacy += MARKER_WEIGHT * (count(lexicon.intimate) + 0.5 * count(lexicon.informal) - 0.5 * count(lexicon.formal));
+  }
+
+  // Emojis carry their lexicon score and pull intimacy and formality towards their own. Only the
+  // bundled lexicon is used, as a custom one would make the score differ between browsers.
+  for (const entry of DEFAULT_EMOJI_LEXICON.entries) {
+    const occurrences = findSubstrings(text, [entry.emoji]).length;
+    valence += occurrences * entry.score * 2;
+    intimacy += occurrences * EMOJI_WEIGHT * (entry.intimacy - 50);
+    formality += occurrences * EMOJI_WEIGHT * (entry.formality - 50);
+  }
+
+  let score = valence / Math.sqrt(valence * valence + NORMALIZATION_ALPHA);
+  // Exclamation marks amplify whatever polarity there is; a bare "!!!" stays neutral.
+  const exclamations = Math.min(3, (text.match(/[!！]/g) ?? []).length);
+  score += Math.sign(score) * exclamations * EXCLAMATION_BOOST;
+  formality -= exclamations * 3;
+
+  for (const particle of detectModalParticles(text, language)) {
+    score += particle.contribution.score;
+    intimacy += particle.contribution.intimacy;
+    formality += particle.contribution.formality;
+  }
+
+  return {
+    score: Math.round(clamp(score, -1, 1) * 100) / 100,
+    intimacy: Math.round(clamp(intimacy, 0, 100)),
+    formality: Math.round(clamp(formality, 0, 100)),
+  };
+};
@@ -0,0 +1,110 @@
+interface ParseResult {
+  value: unknown;
+  end: number;
+  complete: boolean;
+}
+
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/;
+
+const skipWhitespace = (text: string, i: number): number => {
+  while (i < text.length && /\s/.test(text[i])) i++;
+  return i;
+};
+
+const parseString = (text: string, start: number): ParseResult => {
+  let value = '';
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      return { value, end: i + 1, complete: true };
+    }
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+    // An escape cut off by the end of the chunk is dropped until the rest arrives.
+    const escape = text[i + 1];
+    if (escape === undefined) break;
+    if (escape === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escape] ?? escape;
+      i += 1;
+    }
+  }
+  return { value, end: text.length, complete: false };
+};
+
+const parseValue = (text: string, start: number): ParseResult | undefined => {
+  const i = skipWhitespace(text, start);
+  const char = text[i];
+  if (char === undefined) return undefined;
+  if (char === '"') return parseString(text, i);
+  if (char === '{') return parseContainer(text, i, false);
+  if (char === '[') return parseContainer(text, i, true);
+
+  const rest = text.slice(i);
+  const literal = Object.keys(LITERALS).find(word => rest.startsWith(word));
+  if (literal) {
+    return { value: LITERALS[literal], end: i + literal.length, complete: true };
+  }
+  const number = NUMBER_PATTERN.exec(rest);
+  // A number running into the end of the text may still be growing ("0.7" -> "0.75").
+  if (number && i + number[0].length < text.length) {
+    return { value: Number(number[0]), end: i + number[0].length, complete: true };
+  }
+  return undefined;
+};
+
+const parseContainer = (text: string, start: number, isArray: boolean): ParseResult => {
+  const result: unknown[] | Record<string, unknown> = isArray ? [] : {};
+  const close = isArray ? ']' : '}';
+  let i = start + 1;
+
+  while (true) {
+    i = skipWhitespace(text, i);
+    if (i >= text.length) break;
+    if (text[i] === close) {
+      return { value: result, end: i + 1, complete: true };
+    }
+    if (text[i] === ',') {
+      i++;
+      continue;
+    }
+
+    let key: string | undefined;
+    if (!isArray) {
+      if (text[i] !== '"') break;
+      const parsedKey = parseString(text, i);
+      if (!parsedKey.complete) break;
+      i = skipWhitespace(text, parsedKey.end);
+      if (text[i] !== ':') break;
+      key = parsedKey.value as string;
+      i++;
+    }
+
+    const item = parseValue(text, i);
+    if (!item) break;
+    if (isArray) {
+      (result as unknown[]).push(item.value);
+    } else {
+      (result as Record<string, unknown>)[key!] = item.value;
+    }
+    if (!item.complete) break;
+    i = item.end;
+  }
+  return { value: result, end: text.length, complete: false };
+};
+
+/**
+ * Parses the beginning of a JSON document as it streams in. Unterminated strings,
+ * objects and arrays are closed where the text ends; keys without a value yet and
+ * numbers or literals that may still be growing are left out.
+ * @param text The JSON received so far.
+ * @returns The value described so far, or undefined if nothing usable has arrived.
+ */
+export const parsePartialJson = (text: string): unknown => parseValue(text, 0)?.value;
@@ -0,0 +1,165 @@
+import type { ModalParticle, SentimentScore } from './types';
+
+interface ParticleEntry {
+  particle: string;
+  function: string;
+  contribution: SentimentScore;
+}
+
+// Curated from the modal particle literature referenced in the README.
+// Contributions are rough deltas: score on the -1..1 scale, intimacy and formality on 0..100.
+export const MODAL_PARTICLE_LEXICON: Record<string, ParticleEntry[]> = {
+  de: [
+    { particle: 'ja', function: 'marks shared knowledge', contribution: { score: 0.05, intimacy: 10, formality: -8 } },
+    { particle: 'doch', function: 'insists or softens a contradiction', contribution: { score: 0, intimacy: 8, formality: -8 } },
+    { particle: 'mal', function: 'softens a request', contribution: { score: 0.1, intimacy: 10, formality: -12 } },
+    { particle: 'halt', function: 'expresses resignation', contribution: { score: -0.05, intimacy: 6, formality: -12 } },
+    { particle: 'eben', function: 'signals acceptance of the inevitable', contribution: { score: -0.05, intimacy: 3, formality: -5 } },
+    { particle: 'denn', function: 'adds interest or surprise to a question', contribution: { score: 0.05, intimacy: 8, formality: -5 } },
+    { particle: 'wohl', function: 'marks an assumption', contribution: { score: 0, intimacy: -2, formality: 5 } },
+    { particle: 'schon', function: 'reassures', contribution: { score: 0.05, intimacy: 4, formality: -3 } },
+    { particle: 'eigentlich', function: 'shifts the topic politely', contribution: { score: 0, intimacy: 3, formality: 0 } },
+    { particle: 'bloß', function: 'intensifies a warning or wish', contribution: { score: -0.15, intimacy: 4, formality: -10 } },
+    { particle: 'etwa', function: 'signals a disbelieving question', contribution: { score: -0.1, intimacy: 2, formality: 0 } },
+  ],
+  ko: [
+    { particle: '잖아요', function: 'appeals to shared knowledge, politely', contribution: { score: 0, intimacy: 6, formality: 5 } },
+    { particle: '잖아', function: 'appeals to shared knowledge', contribution: { score: 0, intimacy: 12, formality: -15 } },
+    { particle: '거든요', function: 'offers background, politely', contribution: { score: 0.05, intimacy: 5, formality: 5 } },
+    { particle: '거든', function: 'offers background', contribution: { score: 0.05, intimacy: 10, formality: -12 } },
+    { particle: '네요', function: 'expresses discovery or mild surprise', contribution: { score: 0.1, intimacy: 5, formality: 10 } },
+    { particle: '군요', function: 'expresses realization', contribution: { score: 0.05, intimacy: 2, formality: 12 } },
+    { particle: '구나', function: 'expresses realization, casually', contribution: { score: 0.05, intimacy: 10, formality: -12 } },
+    { particle: '지요', function: 'seeks agreement', contribution: { score: 0.05, intimacy: 5, formality: 10 } },
+    { particle: '죠', function: 'seeks agreement', contribution: { score: 0.05, intimacy: 6, formality: 6 } },
+    { particle: '는데요', function: 'softens by leaving room for a reply', contribution: { score: 0.05, intimacy: 4, formality: 8 } },
+    { particle: '는데', function: 'softens by leaving room for a reply', contribution: { score: 0.05, intimacy: 8, formality: -8 } },
+    { particle: '요', function: 'polite ending', contribution: { score: 0.05, intimacy: -5, formality: 15 } },
+  ],
+  ja: [
+    { particle: 'よね', function: 'seeks confirmation', contribution: { score: 0.05, intimacy: 10, formality: -8 } },
+    { particle: 'かな', function: 'expresses wondering', contribution: { score: 0, intimacy: 8, formality: -10 } },
+    { particle: 'かしら', function: 'expresses wondering, softly', contribution: { score: 0.05, intimacy: 8, formality: -5 } },
+    { particle: 'ね', function: 'invites agreement', contribution: { score: 0.1, intimacy: 10, formality: -5 } },
+    { particle: 'よ', function: 'asserts new information', contribution: { score: 0.05, intimacy: 5, formality: -5 } },
+    { particle: 'ぞ', function: 'asserts forcefully', contribution: { score: -0.05, intimacy: 5, formality: -18 } },
+    { particle: 'ぜ', function: 'asserts casually', contribution: { score: 0.05, intimacy: 8, formality: -18 } },
+    { particle: 'わ', function: 'adds emotional emphasis', contribution: { score: 0.05, intimacy: 8, formality: -8 } },
+    { particle: 'な', function: 'expresses feeling or reflection', contribution: { score: 0, intimacy: 6, formality: -10 } },
+  ],
+  th: [
+    { particle: 'นะ', function: 'softens the utterance', contribution: { score: 0.15, intimacy: 12, formality: -5 } },
+    { particle: 'ครับ', function: 'polite ending (male speaker)', contribution: { score: 0.05, intimacy: -5, formality: 20 } },
+    { particle: 'ค่ะ', function: 'polite ending (female speaker)', contribution: { score: 0.05, intimacy: -5, formality: 20 } },
+    { particle: 'คะ', function: 'polite question ending (female speaker)', contribution: { score: 0.05, intimacy: -5, formality: 20 } },
+    { particle: 'จ้ะ', function: 'affectionate ending', contribution: { score: 0.15, intimacy: 18, formality: -10 } },
+    { particle: 'จ้า', function: 'affectionate ending', contribution: { score: 0.15, intimacy: 18, formality: -12 } },
+    { particle: 'เนอะ', function: 'invites agreement', contribution: { score: 0.1, intimacy: 12, formality: -10 } },
+    { particle: 'เถอะ', function: 'urges gently', contribution: { score: 0.05, intimacy: 8, formality: -8 } },
+    { particle: 'สิ', function: 'urges or insists', contribution: { score: 0, intimacy: 6, formality: -12 } },
+    { particle: 'ล่ะ', function: 'presses a question', contribution: { score: -0.05, intimacy: 5, formality: -8 } },
+    { particle: 'หรอก', function: 'softens a negation', contribution: { score: 0.05, intimacy: 6, formality: -6 } },
+  ],
+  zh: [
+    { particle: '吧', function: 'softens a suggestion', contribution: { score: 0.1, intimacy: 8, formality: -8 } },
+    { particle: '呢', function: 'invites continued talk', contribution: { score: 0.05, intimacy: 8, formality: -6 } },
+    { particle: '嘛', function: 'marks the obvious', contribution: { score: 0, intimacy: 10, formality: -12 } },
+    { particle: '啦', function: 'adds casual emphasis', contribution: { score: 0.1, intimacy: 12, formality: -15 } },
+    { particle: '呀', function: 'adds lively emphasis', contribution: { score: 0.1, intimacy: 10, formality: -12 } },
+    { particle: '啊', function: 'adds emotional emphasis', contribution: { score: 0.05, intimacy: 8, formality: -10 } },
+    { particle: '哦', function: 'adds friendly emphasis', contribution: { score: 0.1, intimacy: 10, formality: -10 } },
+  ],
+};
+
+// German particles are free-standing words; the others attach to the end of a clause.
+// Matching is case-sensitive: modal particles sit mid-sentence, while a capitalized "Ja" or "Doch" is an answer.
+const WORD_LANGUAGES = new Set(['de']);
+const CLAUSE_END = '(?=[\\s.,!?~…。、！？]|$)';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildParticlePattern = (language: string): RegExp | null => {
+  const entries = MODAL_PARTICLE_LEXICON[language];
+  if (!entries) {
+    return null;
+  }
+  // Longest first, so that e.g. Korean 잖아요 wins over 요.
+  const alternatives = entries
+    .map(e => escapeRegExp(e.particle))
+    .sort((a, b) => b.length - a.length)
+    .join('|');
+  return WORD_LANGUAGES.has(language)
+    ? new RegExp(`(?<!\\p{L})(${alternatives})(?!\\p{L})`, 'gu')
+    : new RegExp(`(${alternatives})${CLAUSE_END}`, 'gu');
+};
+
+/**
+ * Finds modal particles in a text using the bundled lexicon.
+ * @param text The text to scan.
+ * @param languageCode The language of the text; regional tags such as de-AT use the base language's lexicon.
+ * @returns The detected particles with their character spans, in order of appearance.
+ */
+export const detectModalParticles = (text: string, languageCode: string): ModalParticle[] => {
+  const language = languageCode.split('-')[0].toLowerCase();
+  const pattern = buildParticlePattern(language);
+  if (!pattern) {
+    return [];
+  }
+  const entries = MODAL_PARTICLE_LEXICON[language];
+  return [...text.matchAll(pattern)].map(match => {
+    const entry = entries.find(e => e.particle === match[1])!;
+    return {
+      text: match[1],
+      start: match.index!,
+      end: match.index! + match[1].length,
+      language: languageCode,
+      function: entry.function,
+      contribution: { ...entry.contribution },
+    };
+  });
+};
+
+/** Particle as reported by a model, before its position in the text is known. */
+export interface RawModalParticle {
+  text: string;
+  language: string;
+  function?: string;
+  scoreContribution: number;
+  intimacyContribution: number;
+  formalityContribution: number;
+}
+
+/**
+ * Attaches character spans to particles reported by a model.
+ * Models are unreliable at counting characters, so each particle is looked up
+ * in the text after the previous one; particles that cannot be found are dropped.
+ * @param text The source text the particles were found in.
+ * @param rawParticles The particles as returned by the model, in order of appearance.
+ * @returns The particles that could be located in the text.
+ */
+export const locateModalParticles = (text: string, rawParticles: RawModalParticle[] | undefined): ModalParticle[] => {
+  const located: ModalParticle[] = [];
+  let cursor = 0;
+  for (const raw of rawParticles ?? []) {
+    if (!raw.text) continue;
+    let start = text.indexOf(raw.text, cursor);
+    if (start === -1) {
+      start = text.indexOf(raw.text);
+    }
+    if (start === -1) continue;
+    located.push({
+      text: raw.text,
+      start,
+      end: start + raw.text.length,
+      language: raw.language,
+      function: raw.function || undefined,
+      contribution: {
+        score: raw.scoreContribution,
+        intimacy: raw.intimacyContribution,
+        formality: raw.formalityContribution,
+      },
+    });
+    cursor = start + raw.text.length;
+  }
+  return located.sort((a, b) => a.start - b.start);
+};
@@ -0,0 +1,235 @@
+import type { EmojiSuggestion, GenerationInfo, Language, SentimentScore, TextSegment, TranslationReport, TranslationResponse, UITranslations } from './types';
+import { validateEmojiSuggestion, validateTranslationResponse } from './services/validation';
+import { isAudienceProfile } from './audiences';
+
+export const SHARED_REPORT_HASH_PREFIX = '#report=';
+
+const describeScore = (s: SentimentScore) =>
+  `sentiment ${s.score.toFixed(2)}, intimacy ${Math.round(s.intimacy)}, formality ${Math.round(s.formality)}`;
+
+const quote = (text: string) => text.split('\n').map(line => `> ${line}`).join('\n');
+
+/**
+ * Writes a report as Markdown, for pasting into tickets and documents.
+ * @param report The report.
+ * @returns The Markdown text.
+ */
+export const renderReportMarkdown = (report: TranslationReport): string => {
+  const { response, sourceLanguage, targetLanguage, emojiSuggestion, generation, audience } = report;
+  const style = (s: string) => (s === 'SPOKEN' ? 'spoken' : 'written');
+  const lines = [
+    `# Translation: ${sourceLanguage.name} → ${targetLanguage.name}`,
+    '',
+    `Created ${new Date(report.createdAt).toISOString()} with ${generation?.model ?? report.providerId}` +
+      (generation ? ` (translation prompt v${generation.promptVersions.translation})` : '') + '.',
+    ...(audience ? [`Written for: ${audience.name}.`] : []),
+    ...(report.isEdited ? ['The translation was edited by hand.'] : []),
+    '',
+    `## Original (${sourceLanguage.name})`,
+    '',
+    quote(report.sourceText),
+    '',
+    `${describeScore(response.sourceSentiment)}; ${style(response.sourceStyle)}.`,
+    '',
+    `## Translation (${targetLanguage.name})`,
+    '',
+    quote(response.translation),
+    '',
+    `${describeScore(response.translatedSentiment)}; ${style(response.translatedStyle)}.`,
+  ];
+  if (response.nuance) {
+    lines.push('', '## Nuance', '', response.nuance);
+  }
+  if (emojiSuggestion) {
+    lines.push('', '## Emoji suggestions', '', emojiSuggestion.explanation, '', `Suggested: ${emojiSuggestion.emojis.join(' ')}`);
+  }
+  if (response.particles?.length) {
+    lines.push('', '## Modal particles', '', '| Particle | Function | Sentiment | Intimacy | Formality |', '| --- | --- | --- | --- | --- |');
+    for (const p of response.particles) {
+      lines.push(`| ${p.text} | ${p.function ?? ''} | ${p.contribution.score.toFixed(2)} | ${Math.round(p.contribution.intimacy)} | ${Math.round(p.contribution.formality)} |`);
+    }
+  }
+  if (response.segments && response.segments.length > 1) {
+    lines.push('', '## Sentences', '', '| Original | Translation | Sentiment |', '| --- | --- | --- |');
+    for (const { source, translation } of response.segments) {
+      const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+      lines.push(`| ${cell(source.text)} | ${cell(translation.text)} | ${source.sentiment.score.toFixed(2)} → ${translation.sentiment.score.toFixed(2)} |`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const pointColor = (s: SentimentScore) => `hsl(${120 * (s.score * 0.5 + 0.5)}, 80%, 60%)`;
+
+const MAP_SIZE = 240;
+const MAP_PADDING = 28;
+
+/**
+ * Draws the intimacy/formality map of a result as a standalone SVG, like the map in the
+ * app: the original as a ring, the translation as a dot, and the line between them.
+ * @param source The original's score.
+ * @param translated The translation's score.
+ * @param labels Translated axis labels, if any.
+ * @returns The SVG document.
+ */
+export const renderSentimentMapSvg = (source: SentimentScore, translated: SentimentScore, labels?: UITranslations | null): string => {
+  const plot = MAP_SIZE - 2 * MAP_PADDING;
+  const round = (n: number) => Math.round(n * 10) / 10;
+  const x = (s: SentimentScore) => round(MAP_PADDING + (s.formality / 100) * plot);
+  const y = (s: SentimentScore) => round(MAP_PADDING + (1 - s.intimacy / 100) * plot);
+  const grid = [1, 2, 3].flatMap(i => {
+    const offset = MAP_PADDING + (i * plot) / 4;
+    return [
+      `<line x1="${offset}" y1="${MAP_PADDING}" x2="${offset}" y2="${MAP_PADDING + plot}" />`,
+      `<line x1="${MAP_PADDING}" y1="${offset}" x2="${MAP_PADDING + plot}" y2="${offset}" />`,
+    ];
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${MAP_SIZE}" height="${MAP_SIZE}" viewBox="0 0 ${MAP_SIZE} ${MAP_SIZE}" font-family="sans-serif">
+  <defs>
+    <linearGradient id="legend" x1="0" x2="1" y1="0" y2="0">
+      <stop offset="0" stop-color="#ef4444" /><stop offset="0.5" stop-color="#eab308" /><stop offset="1" stop-color="#22c55e" />
+    </linearGradient>
+    <linearGradient id="drift" gradientUnits="userSpaceOnUse" x1="${x(source)}" y1="${y(source)}" x2="${x(translated)}" y2="${y(translated)}">
+      <stop offset="0" stop-color="${pointColor(source)}" /><stop offset="1" stop-color="${pointColor(translated)}" />
+    </linearGradient>
+  </defs>
+  <rect width="${MAP_SIZE}" height="${MAP_SIZE}" rx="8" fill="#111827" />
+  <rect x="${MAP_PADDING}" y="10" width="${plot}" height="4" rx="2" fill="url(#legend)" />
+  <text x="${MAP_PADDING}" y="24" font-size="8" fill="#ffffffb3">${escapeXml(labels?.negative ?? 'Negative')}</text>
+  <text x="${MAP_PADDING + plot}" y="24" font-size="8" fill="#ffffffb3" text-anchor="end">${escapeXml(labels?.positive ?? 'Positive')}</text>
+  <g stroke="#ffffff1a">${grid.join('')}</g>
+  <rect x="${MAP_PADDING}" y="${MAP_PADDING}" width="${plot}" height="${plot}" fill="none" stroke="#ffffff33" />
+  <line x1="${x(source)}" y1="${y(source)}" x2="${x(translated)}" y2="${y(translated)}" stroke="url(#drift)" stroke-width="2" stroke-dasharray="3 3" />
+  <circle cx="${x(source)}" cy="${y(source)}" r="5" fill="none" stroke="${pointColor(source)}" stroke-width="2"><title>Original: ${describeScore(source)}</title></circle>
+  <circle cx="${x(translated)}" cy="${y(translated)}" r="5" fill="${pointColor(translated)}"><title>Translation: ${describeScore(translated)}</title></circle>
+  <text x="${MAP_SIZE / 2}" y="${MAP_SIZE - 8}" font-size="10" fill="#ffffff80" text-anchor="middle">${escapeXml(labels?.formal ?? 'Formal')} →</text>
+  <text x="12" y="${MAP_SIZE / 2}" font-size="10" fill="#ffffff80" text-anchor="middle" transform="rotate(-90 12 ${MAP_SIZE / 2})">${escapeXml(labels?.intimate ?? 'Intimate')} →</text>
+</svg>
+`;
+};
+
+/**
+ * Rasterizes an SVG document in the browser.
+ * @param svg The SVG document.
+ * @param scale Pixels per SVG unit, 2 for a sharp image on high-density screens.
+ * @returns A promise resolving to the PNG.
+ */
+export const renderSvgAsPng = async (svg: string, scale = 2): Promise<Blob> => {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width * scale;
+    canvas.height = image.height * scale;
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not render the image."))), 'image/png')
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, b => String.fromCharCode(b)).join('')).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+/**
+ * Packs a report into a URL-safe string, compressed so that links stay short.
+ * @param report The report.
+ * @returns A promise resolving to the encoded report.
+ */
+export const encodeReport = async (report: TranslationReport): Promise<string> =>
+  toBase64Url(await transform(new TextEncoder().encode(JSON.stringify(report)), new CompressionStream('deflate-raw')));
+
+// Unlike in a model response, particles and segments are stored with their positions, so they
+// are checked against the texts they point into. Any that do not fit are dropped.
+const isLocatedIn = (text: string, span: Partial<TextSegment> | undefined): boolean =>
+  typeof span?.start === 'number' && typeof span.end === 'number' && text.slice(span.start, span.end) === span.text;
+
+const isLanguage = (value: unknown): value is Language =>
+  typeof (value as Language | null)?.code === 'string' && typeof (value as Language).name === 'string';
+
+const isGenerationInfo = (value: unknown): value is GenerationInfo => {
+  const info = value as Partial<GenerationInfo> | null;
+  return (
+    typeof info?.model === 'string' &&
+    (info.temperature === undefined || Number.isFinite(info.temperature)) &&
+    (info.systemInstruction === undefined || typeof info.systemInstruction === 'string') &&
+    typeof info.promptVersions === 'object' && info.promptVersions !== null &&
+    Object.values(info.promptVersions).every(version => typeof version === 'string')
+  );
+};
+
+/**
+ * Unpacks a report encoded by encodeReport. Since a link can be edited by hand, every
+ * field is checked: the response is validated like a model response, and optional parts
+ * that do not fit, such as the emoji suggestions or the audience, are dropped.
+ * @param encoded The encoded report.
+ * @returns A promise resolving to the report.
+ * @throws Error if the string is not an encoded report.
+ */
+export const decodeReport = async (encoded: string): Promise<TranslationReport> => {
+  let report: TranslationReport;
+  try {
+    report = JSON.parse(new TextDecoder().decode(await transform(fromBase64Url(encoded), new DecompressionStream('deflate-raw'))));
+  } catch {
+    throw new Error("This link does not contain a readable report. It may have been cut off.");
+  }
+  const unsupported = new Error("This link contains a report this version of the app cannot open.");
+  if (
+    report?.formatVersion !== 1 ||
+    typeof report.sourceText !== 'string' ||
+    !Number.isFinite(report.createdAt) ||
+    !isLanguage(report.sourceLanguage) ||
+    !isLanguage(report.targetLanguage)
+  ) {
+    throw unsupported;
+  }
+  let response: TranslationResponse;
+  try {
+    const { particles, segments, ...validated } = validateTranslationResponse({ ...report.response, particles: [], segments: [] });
+    response = {
+      ...validated,
+      particles: (Array.isArray(report.response.particles) ? report.response.particles : [])
+        .filter(p => isLocatedIn(report.sourceText, p)),
+      segments: (Array.isArray(report.response.segments) ? report.response.segments : [])
+        .filter(s => isLocatedIn(report.sourceText, s?.source) && isLocatedIn(validated.translation, s?.translation)),
+    };
+  } catch {
+    throw unsupported;
+  }
+  let emojiSuggestion: EmojiSuggestion | null = null;
+  try {
+    emojiSuggestion = report.emojiSuggestion ? validateEmojiSuggestion(report.emojiSuggestion) : null;
+  } catch {
+    // Suggestions are extras; the report is still shown without them.
+  }
+  return {
+    ...report,
+    response,
+    emojiSuggestion,
+    isEdited: report.isEdited === true,
+    generation: isGenerationInfo(report.generation) ? report.generation : undefined,
+    audience: isAudienceProfile(report.audience) ? report.audience : undefined,
+  };
+};
+
+/**
+ * Builds a link that opens a report read-only in this app. The report travels in the
+ * URL fragment, which browsers do not send to the server.
+ * @param report The report.
+ * @returns A promise resolving to the absolute URL.
+ */
+export const getShareUrl = async (report: TranslationReport): Promise<string> =>
+  `${window.location.origin}${window.location.pathname}${SHARED_REPORT_HASH_PREFIX}${await encodeReport(report)}`;
@@ -0,0 +1,68 @@
+import type { SentimentScore, SegmentAlignment, TextSegment } from './types';
+
+type SegmentSpan = Omit<TextSegment, 'sentiment'>;
+
+/**
+ * Splits a text into sentences using the browser's locale-aware segmenter.
+ * Surrounding whitespace is excluded from each span.
+ * @param text The text to split.
+ * @param languageCode The language of the text, used to pick sentence rules.
+ * @returns The sentence spans, in order.
+ */
+export const segmentSentences = (text: string, languageCode?: string): SegmentSpan[] => {
+  const segmenter = new Intl.Segmenter(languageCode, { granularity: 'sentence' });
+  const spans: SegmentSpan[] = [];
+  for (const { segment, index } of segmenter.segment(text)) {
+    const leading = segment.length - segment.trimStart().length;
+    const trimmed = segment.trim();
+    if (!trimmed) continue;
+    spans.push({ text: trimmed, start: index + leading, end: index + leading + trimmed.length });
+  }
+  return spans;
+};
+
+/** Segment pair as reported by a model, before its position in either text is known. */
+export interface RawSegmentAlignment {
+  source: string;
+  translation: string;
+  sourceSentiment: SentimentScore;
+  translatedSentiment: SentimentScore;
+}
+
+const locate = (text: string, fragment: string, cursor: number): number => {
+  const index = text.indexOf(fragment, cursor);
+  return index === -1 ? text.indexOf(fragment) : index;
+};
+
+/**
+ * Attaches character spans to segment pairs reported by a model.
+ * Pairs whose source or translation cannot be found verbatim are dropped.
+ * @param sourceText The full source text.
+ * @param translatedText The full translation.
+ * @param rawSegments The pairs as returned by the model, in order.
+ * @returns The pairs that could be located in both texts.
+ */
+export const locateSegments = (
+  sourceText: string,
+  translatedText: string,
+  rawSegments: RawSegmentAlignment[] | undefined
+): SegmentAlignment[] => {
+  const located: SegmentAlignment[] = [];
+  let sourceCursor = 0;
+  let translationCursor = 0;
+  for (const raw of rawSegments ?? []) {
+    const source = raw.source?.trim();
+    const translation = raw.translation?.trim();
+    if (!source || !translation) continue;
+    const sourceStart = locate(sourceText, source, sourceCursor);
+    const translationStart = locate(translatedText, translation, translationCursor);
+    if (sourceStart === -1 || translationStart === -1) continue;
+    located.push({
+      source: { text: source, start: sourceStart, end: sourceStart + source.length, sentiment: raw.sourceSentiment },
+      translation: { text: translation, start: translationStart, end: translationStart + translation.length, sentiment: raw.translatedSentiment },
+    });
+    sourceCursor = sourceStart + source.length;
+    translationCursor = translationStart + translation.length;
+  }
+  return located;
+};
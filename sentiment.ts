@@ -0,0 +1,119 @@
+import type { SentimentScore, TranslationCandidate, RankedCandidate, RoundTripFlag, ToneRange, ToneFit, RangePosition, ValueRange } from './types';
+
+/**
+ * Distance between two sentiment scores across all three axes.
+ * Each axis is normalized to 0..1 first, so the result is also 0..1
+ * (0 = identical, 1 = opposite corners of the sentiment cube).
+ * @param a The first score.
+ * @param b The second score.
+ * @returns The normalized Euclidean distance.
+ */
+export const getSentimentDistance = (a: SentimentScore, b: SentimentScore): number => {
+  const ds = (a.score - b.score) / 2;
+  const di = (a.intimacy - b.intimacy) / 100;
+  const df = (a.formality - b.formality) / 100;
+  return Math.sqrt((ds * ds + di * di + df * df) / 3);
+};
+
+/**
+ * Orders candidate translations by how closely they preserve the source sentiment.
+ * @param candidates The candidates to rank.
+ * @param sourceSentiment The sentiment of the original text.
+ * @returns The candidates with their distance, most faithful first.
+ */
+export const rankCandidatesByFidelity = (
+  candidates: TranslationCandidate[],
+  sourceSentiment: SentimentScore
+): RankedCandidate[] =>
+  candidates
+    .map(c => ({ ...c, distance: getSentimentDistance(c.sentiment, sourceSentiment) }))
+    .sort((a, b) => a.distance - b.distance);
+
+type Axis = 'score' | 'intimacy' | 'formality';
+const AXES: Axis[] = ['score', 'intimacy', 'formality'];
+
+/**
+ * Combines several scores of the same text into their mean, with the per-axis
+ * sample standard deviation as confidence information.
+ * @param samples The scores, at least one.
+ * @returns The mean score; `confidence` is set when there is more than one sample.
+ */
+export const aggregateSentimentSamples = (samples: SentimentScore[]): SentimentScore => {
+  const mean = (axis: Axis) => samples.reduce((sum, s) => sum + s[axis], 0) / samples.length;
+  const means = { score: mean('score'), intimacy: mean('intimacy'), formality: mean('formality') };
+  const aggregate = {
+    score: Math.round(means.score * 100) / 100,
+    intimacy: Math.round(means.intimacy),
+    formality: Math.round(means.formality),
+  };
+  if (samples.length < 2) return aggregate;
+
+  const stdDev = Object.fromEntries(AXES.map(axis => [
+    axis,
+    Math.sqrt(samples.reduce((sum, s) => sum + (s[axis] - means[axis]) ** 2, 0) / (samples.length - 1)),
+  ])) as Record<Axis, number>;
+  return { ...aggregate, confidence: { samples: samples.length, stdDev } };
+};
+
+/**
+ * Decides whether two sentiment scores differ by more than a threshold in a way
+ * that sampling noise cannot explain. Without confidence information only the
+ * threshold applies; otherwise the gap must also exceed `z` standard errors
+ * (Welch's approximation over both means).
+ * @param a The first score.
+ * @param b The second score.
+ * @param threshold The smallest gap in `score` that matters in practice.
+ * @param z The critical value, 1.96 for 95% confidence.
+ * @returns Whether the gap is both large enough and significant.
+ */
+export const isSignificantDifference = (a: SentimentScore, b: SentimentScore, threshold: number, z = 1.96): boolean => {
+  const gap = Math.abs(a.score - b.score);
+  if (gap <= threshold) return false;
+  const variance = (s: SentimentScore) => (s.confidence ? s.confidence.stdDev.score ** 2 / s.confidence.samples : 0);
+  return gap > z * Math.sqrt(variance(a) + variance(b));
+};
+
+/**
+ * Flags what a round trip through another language changed beyond the thresholds:
+ * a polarity flip (positive became negative or vice versa), a large sentiment drift
+ * or a large formality drift.
+ * @param source The original text's score.
+ * @param back The back-translation's score.
+ * @param thresholds The largest tolerated drift in `score` and `formality`, and the `neutral`
+ *   band around zero within which a score has no polarity.
+ * @returns The flags, empty if the round trip preserved the tone.
+ */
+export const assessRoundTrip = (
+  source: SentimentScore,
+  back: SentimentScore,
+  thresholds: { score: number; formality: number; neutral: number }
+): RoundTripFlag[] => {
+  const flags: RoundTripFlag[] = [];
+  // Scores close to zero are neutral, so only a sign change between two clearly polar scores is a flip.
+  const isPolar = (score: number) => Math.abs(score) > thresholds.neutral;
+  if (isPolar(source.score) && isPolar(back.score) && Math.sign(source.score) !== Math.sign(back.score)) {
+    flags.push('polarity');
+  } else if (Math.abs(source.score - back.score) > thresholds.score) {
+    flags.push('sentiment');
+  }
+  if (Math.abs(source.formality - back.formality) > thresholds.formality) {
+    flags.push('formality');
+  }
+  return flags;
+};
+
+const positionIn = (value: number, { min, max }: ValueRange): RangePosition =>
+  value < min ? 'below' : value > max ? 'above' : 'inside';
+
+/**
+ * Checks whether a score lies inside a region of the sentiment map, such as an
+ * audience profile's formality and intimacy ranges. Bounds are inclusive.
+ * @param score The score to check.
+ * @param range The region.
+ * @returns Whether it is inside, and on which side of each range it lies otherwise.
+ */
+export const assessToneFit = (score: SentimentScore, range: ToneRange): ToneFit => {
+  const formality = positionIn(score.formality, range.formality);
+  const intimacy = positionIn(score.intimacy, range.intimacy);
+  return { isInRange: formality === 'inside' && intimacy === 'inside', formality, intimacy };
+};
@@ -0,0 +1,242 @@
+import type { BatchJob, BatchRow, BatchRowResult, EmojiSuggestion, Language, TranslationProvider, TranslationResponse } from '../types';
+import { parseCsvRecords, toCsv } from '../csv';
+import { sha256Hex } from '../hash';
+import { EMOJI_SUGGESTION_THRESHOLD } from '../constants';
+import { BATCH_STORE, withStore } from './indexedDb';
+import { CancelledError, classifyError } from './errors';
+import { getBackoffDelay, sleep } from './retry';
+import { getGenerationInfo } from './settings';
+import { getGlossary, selectGlossaryEntries } from '../glossary';
+import { getProvider } from './providers';
+
+const TEXT_COLUMNS = ['text', 'source', 'sentence'];
+
+const pickText = (record: Record<string, unknown>): string => {
+  const key = TEXT_COLUMNS.find(k => typeof record[k] === 'string') ?? Object.keys(record)[0];
+  return key === undefined ? '' : String(record[key] ?? '');
+};
+
+/**
+ * Reads a corpus file into rows. JSONL files need one object per line, JSON files
+ * an array of objects and CSV files a header row. In all of them, the text is taken
+ * from a `text`, `source` or `sentence` field (or the first column) and an optional
+ * `id` field is kept.
+ * @param fileName The name of the uploaded file, used to pick the format.
+ * @param content The file content.
+ * @returns The rows with non-empty text.
+ */
+export const parseCorpus = (fileName: string, content: string): BatchRow[] => {
+  let records: Record<string, unknown>[];
+  if (/\.json$/i.test(fileName)) {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) {
+      throw new Error("A .json corpus must contain an array of objects.");
+    }
+    records = parsed;
+  } else if (/\.(jsonl|ndjson)$/i.test(fileName)) {
+    records = content.split(/\r?\n/).filter(line => line.trim()).map(line => JSON.parse(line));
+  } else {
+    records = parseCsvRecords(content);
+  }
+
+  const rows = records
+    .map((record, i) => ({
+      id: record.id !== undefined && record.id !== '' ? String(record.id) : String(i + 1),
+      text: pickText(record).trim(),
+    }))
+    .filter(row => row.text);
+
+  if (rows.length === 0) {
+    throw new Error("No rows with text were found in the corpus.");
+  }
+  // Results are keyed by row id, so a repeated id would overwrite another row's result.
+  const seen = new Set<string>();
+  for (const row of rows) {
+    if (seen.has(row.id)) {
+      throw new Error(`The id "${row.id}" is used by more than one row. Every row needs a unique id.`);
+    }
+    seen.add(row.id);
+  }
+  return rows;
+};
+
+export const loadBatchJob = (id: string): Promise<BatchJob | undefined> =>
+  withStore<BatchJob | undefined>(BATCH_STORE, 'readonly', store => store.get(id));
+
+export const saveBatchJob = async (job: BatchJob): Promise<void> => {
+  await withStore(BATCH_STORE, 'readwrite', store => store.put(job));
+};
+
+/**
+ * Creates a job for a corpus, or returns the checkpointed job if the same corpus
+ * was already started with the same provider and language pair.
+ */
+export const createOrResumeBatchJob = async (
+  fileName: string,
+  rows: BatchRow[],
+  provider: TranslationProvider,
+  sourceLanguage: Language,
+  targetLanguage: Language
+): Promise<BatchJob> => {
+  const id = await sha256Hex(JSON.stringify([rows, provider.id, sourceLanguage.code, targetLanguage.code]));
+  const existing = await loadBatchJob(id);
+  if (existing) {
+    return existing;
+  }
+  const job: BatchJob = {
+    id,
+    fileName,
+    createdAt: Date.now(),
+    providerId: provider.id,
+    sourceLanguage,
+    targetLanguage,
+    rows,
+    results: {},
+  };
+  await saveBatchJob(job);
+  return job;
+};
+
+interface RunBatchOptions {
+  concurrency: number;
+  maxRetries: number;
+  signal?: AbortSignal; // Cancels in-flight rows, which stay pending, and stops workers
+  onRowComplete: (result: BatchRowResult) => void;
+}
+
+// Suggestions are extras: a row whose suggestions fail keeps its translation, without any.
+const suggestEmojis = async (
+  provider: TranslationProvider,
+  job: BatchJob,
+  row: BatchRow,
+  response: TranslationResponse,
+  signal?: AbortSignal
+): Promise<EmojiSuggestion | null> => {
+  const gap = Math.abs(response.sourceSentiment.score - response.translatedSentiment.score);
+  if (gap <= EMOJI_SUGGESTION_THRESHOLD) return null;
+  try {
+    return await provider.getEmojiSuggestions(
+      row.text, response.translation, response.sourceSentiment.score, response.translatedSentiment.score,
+      { signal, targetLanguageCode: job.targetLanguage.code }
+    );
+  } catch (caught) {
+    const error = classifyError(caught);
+    if (error instanceof CancelledError) throw error;
+    console.error(`Error getting emoji suggestions for row ${row.id}:`, caught);
+    return null;
+  }
+};
+
+const translateRow = async (
+  job: BatchJob,
+  row: BatchRow,
+  { maxRetries, signal }: RunBatchOptions
+): Promise<BatchRowResult> => {
+  // A resumed job keeps the provider it was started with, whatever is selected now.
+  const provider = getProvider(job.providerId);
+  const previousAttempts = job.results[row.id]?.attempts ?? 0;
+  const generation = getGenerationInfo(provider);
+  const glossary = selectGlossaryEntries(row.text, getGlossary(job.sourceLanguage.code, job.targetLanguage.code));
+  // This loop does the retrying, with the job's own limit, so the provider must not retry as well.
+  const options = { signal, retries: 0 };
+  for (let attempt = 0; ; attempt++) {
+    let response: TranslationResponse;
+    try {
+      response = await provider.getTranslationAndSentiment(row.text, job.sourceLanguage.code, job.targetLanguage.name, { ...options, glossary });
+    } catch (caught) {
+      const error = classifyError(caught);
+      if (error instanceof CancelledError) {
+        throw error;
+      }
+      // Errors such as a bad key or a safety block will not go away on their own.
+      if (!error.retriable || attempt >= maxRetries) {
+        return { rowId: row.id, status: 'error', attempts: previousAttempts + attempt + 1, error: error.message };
+      }
+      await sleep(getBackoffDelay(attempt + 1), signal);
+      continue;
+    }
+    const emojiSuggestion = await suggestEmojis(provider, job, row, response, signal);
+    return { rowId: row.id, status: 'done', attempts: previousAttempts + attempt + 1, response, emojiSuggestion, generation };
+  }
+};
+
+/**
+ * Translates every row of a job that has not succeeded yet, with a fixed number
+ * of parallel workers. Each finished row is checkpointed before being reported.
+ * @param job The job to run; its results are updated in place.
+ * @param options Concurrency, retry and cancellation settings.
+ * @returns A promise that resolves once the workers are idle.
+ */
+export const runBatchJob = async (job: BatchJob, options: RunBatchOptions): Promise<void> => {
+  const queue = job.rows.filter(row => job.results[row.id]?.status !== 'done');
+  let next = 0;
+
+  const worker = async () => {
+    while (next < queue.length && !options.signal?.aborted) {
+      const row = queue[next++];
+      let result: BatchRowResult;
+      try {
+        result = await translateRow(job, row, options);
+      } catch (error) {
+        if (error instanceof CancelledError) return; // The row stays pending for the next run
+        throw error;
+      }
+      job.results[row.id] = result;
+      await saveBatchJob(job);
+      options.onRowComplete(result);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, options.concurrency) }, worker));
+};
+
+export const BATCH_RESULT_COLUMNS = [
+  'id',
+  'source_text',
+  'translation',
+  'source_score',
+  'source_intimacy',
+  'source_formality',
+  'translated_score',
+  'translated_intimacy',
+  'translated_formality',
+  'source_style',
+  'translated_style',
+  'nuance',
+  'suggested_emojis',
+  'model',
+  'prompt_version',
+  'status',
+  'error',
+];
+
+const toResultRecords = (job: BatchJob): Record<string, unknown>[] =>
+  job.rows.map(row => {
+    const result = job.results[row.id];
+    const response = result?.response;
+    return {
+      id: row.id,
+      source_text: row.text,
+      translation: response?.translation,
+      source_score: response?.sourceSentiment.score,
+      source_intimacy: response?.sourceSentiment.intimacy,
+      source_formality: response?.sourceSentiment.formality,
+      translated_score: response?.translatedSentiment.score,
+      translated_intimacy: response?.translatedSentiment.intimacy,
+      translated_formality: response?.translatedSentiment.formality,
+      source_style: response?.sourceStyle,
+      translated_style: response?.translatedStyle,
+      nuance: response?.nuance,
+      suggested_emojis: result?.emojiSuggestion?.emojis.join(' '),
+      model: result?.generation?.model,
+      prompt_version: result?.generation?.promptVersions.translation,
+      status: result?.status ?? 'pending',
+      error: result?.error,
+    };
+  });
+
+export const serializeBatchResultsCsv = (job: BatchJob): string =>
+  toCsv(BATCH_RESULT_COLUMNS, toResultRecords(job));
+
+export const serializeBatchResultsJsonl = (job: BatchJob): string =>
+  toResultRecords(job).map(record => JSON.stringify(record)).join('\n');
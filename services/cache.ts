@@ -0,0 +1,271 @@
+import type { PartialTranslationResponse, PromptTemplateId, RequestOptions, SentimentScore, TranslationProvider } from '../types';
+import { sha256Hex } from '../hash';
+import { CACHE_STORE, withStore } from './indexedDb';
+import { getGenerationInfo } from './settings';
+import { CancelledError } from './errors';
+
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_MEMORY_ENTRIES = 200;
+
+interface CacheRecord {
+  key: string;
+  value: unknown;
+  expiresAt: number;
+}
+
+// A fetch shared by every concurrent caller with the same key. It runs on its own
+// signal, which is only aborted once every caller waiting for it has given up.
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiting: number;
+}
+
+// The prompt each cached method renders. Only that prompt's version is part of the method's
+// keys, so that saving a new version of one prompt keeps the other methods' entries.
+const METHOD_PROMPTS: Record<Exclude<keyof TranslationProvider, 'id' | 'name' | 'model' | 'isConfigured' | 'streamTranslationAndSentiment'>, PromptTemplateId> = {
+  getSentiment: 'sentiment',
+  getTranslationAndSentiment: 'translation',
+  getEmojiSuggestions: 'emojiSuggestion',
+  getToneTargetedTranslation: 'toneTarget',
+  getTranslationCandidates: 'candidates',
+  detectLanguage: 'languageDetection',
+};
+
+const memoryCache = new Map<string, CacheRecord>();
+const inFlight = new Map<string, InFlightRequest>();
+
+const rememberInMemory = (record: CacheRecord) => {
+  // Re-inserting moves the key to the end, so the first key is always the least recently used.
+  memoryCache.delete(record.key);
+  memoryCache.set(record.key, record);
+  if (memoryCache.size > MAX_MEMORY_ENTRIES) {
+    memoryCache.delete(memoryCache.keys().next().value!);
+  }
+};
+
+// The persistent layer is best-effort: private browsing or a full disk must not break requests.
+const readPersisted = async (key: string): Promise<CacheRecord | undefined> => {
+  try {
+    return await withStore<CacheRecord | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+  } catch (error) {
+    console.warn("Response cache unavailable:", error);
+    return undefined;
+  }
+};
+
+const writePersisted = async (record: CacheRecord): Promise<void> => {
+  try {
+    await withStore(CACHE_STORE, 'readwrite', store => store.put(record));
+  } catch (error) {
+    console.warn("Response cache unavailable:", error);
+  }
+};
+
+const lookup = async (key: string): Promise<CacheRecord | undefined> => {
+  const now = Date.now();
+  const inMemory = memoryCache.get(key);
+  if (inMemory && inMemory.expiresAt > now) {
+    rememberInMemory(inMemory);
+    return inMemory;
+  }
+  const persisted = await readPersisted(key);
+  if (persisted && persisted.expiresAt > now) {
+    rememberInMemory(persisted);
+    return persisted;
+  }
+  return undefined;
+};
+
+const store = async (key: string, value: unknown, ttlMs: number): Promise<void> => {
+  const record = { key, value, expiresAt: Date.now() + ttlMs };
+  rememberInMemory(record);
+  await writePersisted(record);
+};
+
+/**
+ * Derives a content-addressed cache key from everything that influences a response.
+ * @param parts Provider, generation settings, method name and the method's inputs.
+ * @returns A promise resolving to the hex key.
+ */
+export const getCacheKey = (...parts: unknown[]): Promise<string> => sha256Hex(JSON.stringify(parts));
+
+/**
+ * Waits for a shared fetch on behalf of one caller. Aborting the caller's signal
+ * rejects only this caller's promise; the fetch itself is cancelled when the last
+ * waiting caller leaves.
+ */
+const join = <T,>(key: string, request: InFlightRequest, signal?: AbortSignal): Promise<T> => {
+  if (signal?.aborted) {
+    return Promise.reject(new CancelledError(signal.reason));
+  }
+  request.waiting++;
+  return new Promise<T>((resolve, reject) => {
+    let hasLeft = false;
+    const leave = () => {
+      if (hasLeft) return false;
+      hasLeft = true;
+      request.waiting--;
+      signal?.removeEventListener('abort', onAbort);
+      return true;
+    };
+    const onAbort = () => {
+      if (!leave()) return;
+      reject(new CancelledError(signal?.reason));
+      if (request.waiting === 0) {
+        // Nobody wants the response any more; later callers must start a fresh fetch.
+        if (inFlight.get(key) === request) inFlight.delete(key);
+        request.controller.abort();
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    request.promise.then(
+      value => {
+        if (leave()) resolve(value as T);
+      },
+      error => {
+        if (leave()) reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Returns a cached response when one is fresh, otherwise calls the fetcher and caches its result.
+ * Concurrent calls with the same key share a single fetch, which is only cancelled once all of
+ * them are. Failures are never cached.
+ * @param key The cache key, see getCacheKey.
+ * @param fetcher Produces the response on a cache miss, cancelled through the signal it is given.
+ * @param options Set bypassCache to always fetch (the fresh result still replaces the cached one),
+ * and signal to stop waiting for the response.
+ * @param ttlMs How long the response stays fresh.
+ * @returns A promise resolving to the cached or fetched response.
+ */
+export const cached = async <T,>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  options?: RequestOptions,
+  ttlMs = DEFAULT_TTL_MS
+): Promise<T> => {
+  if (!options?.bypassCache) {
+    const hit = await lookup(key);
+    if (hit) {
+      return hit.value as T;
+    }
+  }
+
+  let request = inFlight.get(key);
+  if (!request) {
+    const controller = new AbortController();
+    const promise = fetcher(controller.signal).then(async value => {
+      await store(key, value, ttlMs);
+      return value;
+    });
+    const created: InFlightRequest = { promise, controller, waiting: 0 };
+    promise
+      .finally(() => {
+        if (inFlight.get(key) === created) inFlight.delete(key);
+      })
+      .catch(() => undefined); // Each caller sees the failure through join
+    inFlight.set(key, created);
+    request = created;
+  }
+  return join<T>(key, request, options?.signal);
+};
+
+/**
+ * Removes every cached response from memory and IndexedDB.
+ */
+export const clearResponseCache = async (): Promise<void> => {
+  memoryCache.clear();
+  try {
+    await withStore(CACHE_STORE, 'readwrite', s => s.clear());
+  } catch (error) {
+    console.warn("Response cache unavailable:", error);
+  }
+};
+
+/**
+ * Wraps a provider so that every method goes through the response cache.
+ * Keys combine the provider id, the current model settings, the version of the
+ * method's prompt, the method name and all of its inputs, so e.g. the same text in another language
+ * pair, or asked with an edited prompt, is cached separately.
+ * @param provider The provider to wrap.
+ * @returns A provider with the same identity and cached methods.
+ */
+export const withCache = (provider: TranslationProvider): TranslationProvider => {
+  const keyFor = (method: keyof typeof METHOD_PROMPTS, ...args: unknown[]) => {
+    const { promptVersions, ...generation } = getGenerationInfo(provider);
+    return getCacheKey(provider.id, { ...generation, promptVersion: promptVersions[METHOD_PROMPTS[method]] }, method, ...args);
+  };
+
+  // Options that change the prompt are part of the key. Whole profiles and glossary entries
+  // are used rather than their ids, as the prompt depends on their contents.
+  const promptOptions = (options?: RequestOptions) => [
+    ...(options?.audience ? [{ audience: options.audience }] : []),
+    ...(options?.glossary?.length ? [{ glossary: options.glossary }] : []),
+    ...(options?.context?.length ? [{ context: options.context }] : []),
+  ];
+
+  const primeSentiment = async (text: string, sentiment: SentimentScore) => {
+    await store(await keyFor('getSentiment', text), sentiment, DEFAULT_TTL_MS);
+  };
+
+  // Streamed and plain translations share cache entries; a hit is simply returned without any partial updates.
+  const translate = async (
+    text: string,
+    sourceLanguageCode: string,
+    targetLanguageName: string,
+    options?: RequestOptions,
+    onPartial?: (partial: PartialTranslationResponse) => void
+  ) => {
+    const response = await cached(
+      await keyFor('getTranslationAndSentiment', text, sourceLanguageCode, targetLanguageName, ...promptOptions(options)),
+      signal => onPartial
+        ? provider.streamTranslationAndSentiment(text, sourceLanguageCode, targetLanguageName, onPartial, { ...options, signal })
+        : provider.getTranslationAndSentiment(text, sourceLanguageCode, targetLanguageName, { ...options, signal }),
+      options
+    );
+    // Both texts were just scored, so later getSentiment calls for them need no request.
+    await Promise.all([
+      primeSentiment(text, response.sourceSentiment),
+      primeSentiment(response.translation, response.translatedSentiment),
+    ]);
+    return response;
+  };
+
+  return {
+    ...provider,
+    // A sample at an explicit temperature must not stand in for the default score.
+    getSentiment: async (text, options) =>
+      cached(
+        await (options?.temperature === undefined ? keyFor('getSentiment', text) : keyFor('getSentiment', text, options.temperature)),
+        signal => provider.getSentiment(text, { ...options, signal }),
+        options
+      ),
+    getTranslationAndSentiment: (text, sourceLanguageCode, targetLanguageName, options) =>
+      translate(text, sourceLanguageCode, targetLanguageName, options),
+    streamTranslationAndSentiment: (text, sourceLanguageCode, targetLanguageName, onPartial, options) =>
+      translate(text, sourceLanguageCode, targetLanguageName, options, onPartial),
+    getEmojiSuggestions: async (sourceText, translatedText, sourceScore, translatedScore, options) =>
+      cached(
+        await keyFor('getEmojiSuggestions', sourceText, translatedText, sourceScore, translatedScore),
+        signal => provider.getEmojiSuggestions(sourceText, translatedText, sourceScore, translatedScore, { ...options, signal }),
+        options
+      ),
+    getToneTargetedTranslation: async (text, sourceLanguageCode, targetLanguageName, currentTranslation, target, options) =>
+      cached(
+        await keyFor('getToneTargetedTranslation', text, sourceLanguageCode, targetLanguageName, currentTranslation, target, ...promptOptions(options)),
+        signal => provider.getToneTargetedTranslation(text, sourceLanguageCode, targetLanguageName, currentTranslation, target, { ...options, signal }),
+        options
+      ),
+    getTranslationCandidates: async (text, sourceLanguageCode, targetLanguageName, count, options) =>
+      cached(
+        await keyFor('getTranslationCandidates', text, sourceLanguageCode, targetLanguageName, count, ...promptOptions(options)),
+        signal => provider.getTranslationCandidates(text, sourceLanguageCode, targetLanguageName, count, { ...options, signal }),
+        options
+      ),
+    detectLanguage: async (text, options) =>
+      cached(await keyFor('detectLanguage', text), signal => provider.detectLanguage(text, { ...options, signal }), options),
+  };
+};
@@ -0,0 +1,140 @@
+export type TranslatorErrorKind =
+  | 'auth'
+  | 'rate-limit'
+  | 'safety'
+  | 'network'
+  | 'timeout'
+  | 'malformed'
+  | 'cancelled'
+  | 'unknown';
+
+/**
+ * Base class for every error a provider surfaces. `kind` drives the message
+ * shown to the user and `retriable` whether an automatic retry makes sense.
+ */
+export class TranslatorError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: TranslatorErrorKind,
+    public readonly retriable: boolean,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'TranslatorError';
+  }
+}
+
+export class AuthError extends TranslatorError {
+  constructor(message = 'The API key is missing or invalid.', cause?: unknown) {
+    super(message, 'auth', false, cause);
+    this.name = 'AuthError';
+  }
+}
+
+export class RateLimitError extends TranslatorError {
+  constructor(
+    message = 'The quota or rate limit was exceeded.',
+    public readonly retryAfterMs?: number,
+    cause?: unknown
+  ) {
+    super(message, 'rate-limit', true, cause);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class SafetyBlockError extends TranslatorError {
+  constructor(message = 'The request was blocked by the provider\'s safety filters.', cause?: unknown) {
+    super(message, 'safety', false, cause);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class NetworkError extends TranslatorError {
+  constructor(message = 'The provider could not be reached.', cause?: unknown) {
+    super(message, 'network', true, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends TranslatorError {
+  constructor(message = 'The request timed out.', cause?: unknown) {
+    super(message, 'timeout', true, cause);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class MalformedResponseError extends TranslatorError {
+  constructor(message = 'The model returned a response that could not be used.', cause?: unknown) {
+    super(message, 'malformed', false, cause);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+export class CancelledError extends TranslatorError {
+  constructor(cause?: unknown) {
+    super('The request was cancelled.', 'cancelled', false, cause);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Maps an HTTP status (and optional Retry-After header) to a typed error.
+ * @param status The HTTP status code.
+ * @param detail Text from the response body, included in the message.
+ * @param retryAfter The value of the Retry-After header, if any.
+ * @returns The matching TranslatorError.
+ */
+export const errorFromStatus = (status: number, detail = '', retryAfter?: string | null): TranslatorError => {
+  const message = `Request failed with status ${status}${detail ? `: ${detail}` : ''}`;
+  if (status === 401 || status === 403) {
+    return new AuthError(message);
+  }
+  if (status === 429) {
+    const seconds = retryAfter ? Number(retryAfter) : NaN;
+    return new RateLimitError(message, Number.isFinite(seconds) ? seconds * 1000 : undefined);
+  }
+  if (status === 408) {
+    return new TimeoutError(message);
+  }
+  if (status >= 500) {
+    return new NetworkError(message);
+  }
+  if (/api[_ ]?key/i.test(detail)) {
+    return new AuthError(message);
+  }
+  if (/safety|content[_ ]?filter|blocked/i.test(detail)) {
+    return new SafetyBlockError(message);
+  }
+  return new TranslatorError(message, 'unknown', false);
+};
+
+/**
+ * Normalizes anything thrown during a request into a TranslatorError.
+ * @param error The thrown value.
+ * @returns The error itself if already typed, otherwise the best matching TranslatorError.
+ */
+export const classifyError = (error: unknown): TranslatorError => {
+  if (error instanceof TranslatorError) {
+    return error;
+  }
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return new TimeoutError(undefined, error);
+  }
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new CancelledError(error);
+  }
+  // Both the Gemini SDK's ApiError and plain fetch wrappers expose a numeric status.
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    return errorFromStatus(status, error instanceof Error ? error.message : '');
+  }
+  if (error instanceof TypeError) {
+    // fetch rejects with a TypeError when the network is unreachable or CORS fails.
+    return new NetworkError(undefined, error);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (/api[_ ]?key/i.test(message)) {
+    return new AuthError(message, error);
+  }
+  return new TranslatorError(message, 'unknown', false, error);
+};
@@ -1,11 +1,100 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import type { SentimentScore, EmojiSuggestion, TranslationResponse } from '../types';
+import { GoogleGenAI, Type, type GenerateContentResponse } from "@google/genai";
+import type { SentimentScore, EmojiSuggestion, TranslationResponse, TranslationProvider, ToneTargetedTranslation, TranslationCandidate, RequestOptions, PartialTranslationResponse, LanguageDetection } from '../types';
+import { buildSentimentPrompt, buildTranslationPrompt, buildEmojiSuggestionPrompt, buildToneTargetPrompt, buildCandidatesPrompt, buildLanguageDetectionPrompt } from './prompts';
+import { locateModalParticles } from '../particles';
+import { locateSegments } from '../segmentation';
+import {
+  requestValidated,
+  extractPartialTranslation,
+  validateSentimentScore,
+  validateTranslationResponse,
+  validateEmojiSuggestion,
+  validateToneTargetedTranslation,
+  validateTranslationCandidates,
+  validateLanguageDetection,
+} from './validation';
+import { AuthError, SafetyBlockError, classifyError } from './errors';
+import { withRetry } from './retry';
+import { parsePartialJson } from '../partialJson';
+import { getLanguageName } from '../languages';
+import { resolveModel, resolveSystemInstruction, resolveTemperature } from './settings';
 
-if (!process.env.API_KEY) {
-  throw new Error("API_KEY environment variable not set");
-}
+const GEMINI_MODEL = "gemini-2.5-flash";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+let client: GoogleGenAI | null = null;
+
+/**
+ * Lazily creates the Gemini client so that a missing key only fails
+ * Gemini requests instead of the whole app at import time.
+ */
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) {
+    throw new AuthError("API_KEY environment variable not set");
+  }
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+const BLOCKING_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION']);
+
+// A blocked request comes back as a successful call without text.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKING_FINISH_REASONS.has(finishReason))) {
+    throw new SafetyBlockError(`Gemini blocked the request (${blockReason ?? finishReason}).`);
+  }
+};
+
+/**
+ * Requests JSON conforming to a schema and validates it, with one repair attempt
+ * unless the caller opted out. Transient failures are retried with backoff.
+ * @param prompt The prompt to send.
+ * @param responseSchema The Gemini response schema.
+ * @param validate Validates and normalizes the parsed response.
+ * @param options Request options.
+ * @param onText If given, the response is streamed and this receives the text generated so far.
+ * @returns A promise resolving to the validated response.
+ */
+const generateJson = <T,>(
+  prompt: string,
+  responseSchema: object,
+  validate: (raw: unknown) => T,
+  options?: RequestOptions,
+  onText?: (text: string) => void
+): Promise<T> =>
+  requestValidated(
+    (contents) => withRetry(async (abortSignal) => {
+      const request = {
+        model: resolveModel('gemini', GEMINI_MODEL),
+        contents,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema,
+          temperature: resolveTemperature('gemini', options),
+          systemInstruction: resolveSystemInstruction(),
+          abortSignal,
+        },
+      };
+      if (!onText) {
+        const response = await getClient().models.generateContent(request);
+        assertNotBlocked(response);
+        return response.text;
+      }
+      let text = '';
+      for await (const chunk of await getClient().models.generateContentStream(request)) {
+        assertNotBlocked(chunk);
+        text += chunk.text ?? '';
+        onText(text);
+      }
+      return text;
+    }, options),
+    prompt,
+    validate,
+    options?.repairInvalid ?? true
+  );
 
 const sentimentSchema = {
   type: Type.OBJECT,
@@ -26,36 +115,47 @@ const sentimentSchema = {
   required: ["score", "intimacy", "formality"],
 };
 
+const particleSchema = {
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING, description: "The particle exactly as it appears in the original text." },
+    language: { type: Type.STRING, description: "The language code of the particle, e.g. 'de'." },
+    function: { type: Type.STRING, description: "A few words on the pragmatic function of the particle." },
+    scoreContribution: { type: Type.NUMBER, description: "Estimated contribution to the sentiment score, from -1.0 to 1.0." },
+    intimacyContribution: { type: Type.NUMBER, description: "Estimated contribution to intimacy, from -100 to 100." },
+    formalityContribution: { type: Type.NUMBER, description: "Estimated contribution to formality, from -100 to 100." },
+  },
+  required: ["text", "language", "scoreContribution", "intimacyContribution", "formalityContribution"],
+};
+
+const segmentSchema = {
+  type: Type.OBJECT,
+  properties: {
+    source: { type: Type.STRING, description: "A sentence or clause copied exactly from the original text." },
+    translation: { type: Type.STRING, description: "The matching part copied exactly from the translation." },
+    sourceSentiment: sentimentSchema,
+    translatedSentiment: sentimentSchema,
+  },
+  required: ["source", "translation", "sourceSentiment", "translatedSentiment"],
+};
+
 /**
  * Analyzes the sentiment of a given text.
  * @param text The text to analyze.
  * @returns A promise that resolves to a SentimentScore object.
  */
-export const getSentiment = async (text: string): Promise<SentimentScore> => {
+export const getSentiment = async (text: string, options?: RequestOptions): Promise<SentimentScore> => {
   if (!text.trim()) {
     return { score: 0, intimacy: 50, formality: 50 };
   }
-  const prompt = `Analyze the sentiment of the following text. Provide:
-1.  A sentiment score between -1.0 (very negative) and 1.0 (very positive).
-2.  An intimacy score between 0 (distant) and 100 (intimate).
-3.  A formality score between 0 (informal) and 100 (formal).
-Text: "${text}"`;
+  const prompt = buildSentimentPrompt(text);
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: sentimentSchema,
-      },
-    });
-
-    return JSON.parse(response.text) as SentimentScore;
+    return await generateJson(prompt, sentimentSchema, validateSentimentScore, options);
   } catch (error) {
     console.error("Error analyzing sentiment:", error);
-    // Return a neutral score on error to avoid breaking the UI
-    return { score: 0, intimacy: 50, formality: 50 };
+    // Callers decide how to degrade; a fake neutral score must not end up in the response cache.
+    throw classifyError(error);
   }
 };
 
@@ -65,12 +165,16 @@ Text: "${text}"`;
  * @param text The text to translate.
  * @param sourceLanguageCode The language code of the source text.
  * @param targetLanguageName The full name of the target language (e.g., 'Korean').
+ * @param options Request options.
+ * @param onPartial If given, the response is streamed and this receives the fields generated so far.
  * @returns A promise resolving to a TranslationResponse object.
  */
-export const getTranslationAndSentiment = async (
+const requestTranslation = async (
   text: string,
   sourceLanguageCode: string,
-  targetLanguageName: string
+  targetLanguageName: string,
+  options?: RequestOptions,
+  onPartial?: (partial: PartialTranslationResponse) => void
 ): Promise<TranslationResponse> => {
   const schema = {
     type: Type.OBJECT,
@@ -93,6 +197,16 @@ export const getTranslationAndSentiment = async (
         type: Type.STRING,
         description: `A short explanation in ${targetLanguageName} of any subtle nuance, cultural context, or ambiguity in the original text that might be lost in translation. This should be null or an empty string if no significant nuance is detected.`
       },
+      particles: {
+        type: Type.ARRAY,
+        items: particleSchema,
+        description: "The modal particles of the original text, in order of appearance.",
+      },
+      segments: {
+        type: Type.ARRAY,
+        items: segmentSchema,
+        description: "The sentences of the original text paired with their translations, in order.",
+      },
       uiTranslations: {
         type: Type.OBJECT,
         properties: {
@@ -107,41 +221,51 @@ export const getTranslationAndSentiment = async (
       }
     },
     required: ["translation", "sourceStyle", "translatedStyle", "sourceSentiment", "translatedSentiment", "uiTranslations"],
+    // Without an explicit order Gemini emits keys alphabetically; the translation should stream first.
+    propertyOrdering: [
+      "translation", "sourceSentiment", "translatedSentiment", "sourceStyle", "translatedStyle",
+      "nuance", "particles", "segments", "uiTranslations",
+    ],
   };
 
-  const prompt = `You are an expert linguist and cultural translator. Your task is to translate text while being highly sensitive to subtle meanings.
-1. Provide a natural and direct translation of the following text into ${targetLanguageName}. The translation should sound like it was written by a native speaker.
-2. Analyze the ORIGINAL text for any subtle nuances, culturally specific phrases, ambiguities, or emotional undertones that might be lost or altered in a direct translation. Provide a short, one-sentence explanation of this key nuance IN ${targetLanguageName}. For example, you might point out if a word has a double meaning, if the tone is sarcastic, or if a phrase is a specific cultural reference. If no significant nuance is found, return null for the nuance explanation.
-3. For the ORIGINAL text, provide: a sentiment score (-1.0 to 1.0), an intimacy score (0-100), a formality score (0-100), and classify its style as either 'SPOKEN' or 'WRITTEN'.
-4. For the TRANSLATION you generated, provide: a sentiment score (-1.0 to 1.0), an intimacy score (0-100), a formality score (0-100), and classify its style as either 'SPOKEN' or 'WRITTEN'.
-5. Translate the following UI labels into ${targetLanguageName}: 'Formal', 'Intimate', 'Negative', 'Positive', 'Spoken', 'Written'.
-
-Provide your response strictly as a JSON object that conforms to the provided schema. Do not include any extra text or formatting.
-Original Text: "${text}"`;
+  const prompt = buildTranslationPrompt(text, getLanguageName(sourceLanguageCode), targetLanguageName, options?.audience, options?.glossary, options?.context);
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-      },
-    });
-    
-    const parsed = JSON.parse(response.text) as TranslationResponse;
-    // Ensure nuance is undefined if it's a nullish value from the model
-    if (!parsed.nuance) {
-        parsed.nuance = undefined;
-    }
-    return parsed;
-
+    const { particles, segments, ...parsed } = await generateJson(
+        prompt, schema, validateTranslationResponse, options,
+        onPartial && ((partialText) => onPartial(extractPartialTranslation(parsePartialJson(partialText))))
+    );
+    return {
+        ...parsed,
+        particles: locateModalParticles(text, particles),
+        segments: locateSegments(text, parsed.translation, segments),
+    };
   } catch (error) {
     console.error("Error in translation and sentiment analysis:", error);
-    throw new Error("Failed to translate text and analyze sentiment.");
+    throw classifyError(error);
   }
 };
 
+export const getTranslationAndSentiment = (
+  text: string,
+  sourceLanguageCode: string,
+  targetLanguageName: string,
+  options?: RequestOptions
+): Promise<TranslationResponse> => requestTranslation(text, sourceLanguageCode, targetLanguageName, options);
+
+/**
+ * Streams a translation, reporting the translation text, sentiments, styles and
+ * nuance as soon as each has been generated.
+ * @param onPartial Receives the fields generated so far.
+ * @returns A promise resolving to the complete TranslationResponse.
+ */
+export const streamTranslationAndSentiment = (
+  text: string,
+  sourceLanguageCode: string,
+  targetLanguageName: string,
+  onPartial: (partial: PartialTranslationResponse) => void,
+  options?: RequestOptions
+): Promise<TranslationResponse> => requestTranslation(text, sourceLanguageCode, targetLanguageName, options, onPartial);
 
 /**
  * Gets emoji suggestions to bridge the sentiment gap between two texts.
@@ -155,42 +279,169 @@ export const getEmojiSuggestions = async (
     sourceText: string,
     translatedText: string,
     sourceScore: number,
-    translatedScore: number
+    translatedScore: number,
+    options?: RequestOptions
 ): Promise<EmojiSuggestion> => {
-    const prompt = `The original text has a sentiment score of ${sourceScore.toFixed(2)} and the following translated text has a score of ${translatedScore.toFixed(2)}.
-Original text: "${sourceText}"
-Translation: "${translatedText}"
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            explanation: {
+                type: Type.STRING,
+                description: "A short sentence explaining the sentiment difference."
+            },
+            emojis: {
+                type: Type.ARRAY,
+                items: { type: Type.STRING },
+                description: "An array of exactly 3 emoji characters."
+            },
+            placements: {
+                type: Type.ARRAY,
+                description: "One recommended placement per emoji, in the same order.",
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        emoji: { type: Type.STRING, description: "The emoji being placed." },
+                        after: { type: Type.STRING, description: "The fragment of the translation, copied verbatim, that the emoji should follow. Empty for the end." },
+                        predictedSentiment: sentimentSchema,
+                    },
+                    required: ["emoji", "after", "predictedSentiment"],
+                },
+            }
+        },
+        required: ["explanation", "emojis", "placements"]
+    };
+
+    const prompt = buildEmojiSuggestionPrompt(sourceText, translatedText, sourceScore, translatedScore);
+
+    try {
+        return await generateJson(prompt, schema, validateEmojiSuggestion, options);
+    } catch (error) {
+        console.error("Error getting emoji suggestions:", error);
+        throw classifyError(error);
+    }
+};
+
+/**
+ * Rewrites a translation so that its tone lands near a target point on the sentiment map.
+ * @param text The original text.
+ * @param sourceLanguageCode The language code of the source text.
+ * @param targetLanguageName The full name of the target language (e.g., 'Korean').
+ * @param currentTranslation The translation to adjust.
+ * @param target The desired sentiment, intimacy and formality.
+ * @returns A promise that resolves to the rewritten translation and its style.
+ */
+export const getToneTargetedTranslation = async (
+    text: string,
+    sourceLanguageCode: string,
+    targetLanguageName: string,
+    currentTranslation: string,
+    target: SentimentScore,
+    options?: RequestOptions
+): Promise<ToneTargetedTranslation> => {
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            translation: {
+                type: Type.STRING,
+                description: `The rewritten translation in ${targetLanguageName}.`
+            },
+            translatedStyle: {
+                type: Type.STRING,
+                description: "The style of the rewritten translation. Either 'SPOKEN' or 'WRITTEN'."
+            }
+        },
+        required: ["translation", "translatedStyle"]
+    };
 
-1. In one short sentence, explain the emotional nuance difference from the original to the translation. For example, "The original text felt slightly more playful."
-2. Suggest exactly 3 emojis that could be added to the translation to better match the original sentiment.
-Provide your response as a JSON object.`;
+    const prompt = buildToneTargetPrompt(text, getLanguageName(sourceLanguageCode), targetLanguageName, currentTranslation, target, options?.glossary);
 
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
+        return await generateJson(prompt, schema, validateToneTargetedTranslation, options);
+    } catch (error) {
+        console.error("Error in tone-targeted translation:", error);
+        throw classifyError(error);
+    }
+};
+
+/**
+ * Produces several alternative translations, each following a different strategy.
+ * @param text The text to translate.
+ * @param sourceLanguageCode The language code of the source text.
+ * @param targetLanguageName The full name of the target language (e.g., 'Korean').
+ * @param count How many candidates to produce.
+ * @returns A promise that resolves to the scored candidates, in strategy order.
+ */
+export const getTranslationCandidates = async (
+    text: string,
+    sourceLanguageCode: string,
+    targetLanguageName: string,
+    count: number,
+    options?: RequestOptions
+): Promise<TranslationCandidate[]> => {
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            candidates: {
+                type: Type.ARRAY,
+                description: `Exactly ${count} translations, in the requested strategy order.`,
+                items: {
                     type: Type.OBJECT,
                     properties: {
-                        explanation: {
-                            type: Type.STRING,
-                            description: "A short sentence explaining the sentiment difference."
-                        },
-                        emojis: {
-                            type: Type.ARRAY,
-                            items: { type: Type.STRING },
-                            description: "An array of exactly 3 emoji characters."
-                        }
+                        strategy: { type: Type.STRING, description: "The strategy this translation follows." },
+                        translation: { type: Type.STRING, description: `The translation in ${targetLanguageName}.` },
+                        sentiment: sentimentSchema,
+                        style: { type: Type.STRING, description: "Either 'SPOKEN' or 'WRITTEN'." },
                     },
-                    required: ["explanation", "emojis"]
-                }
-            }
-        });
-        return JSON.parse(response.text) as EmojiSuggestion;
+                    required: ["strategy", "translation", "sentiment", "style"],
+                },
+            },
+        },
+        required: ["candidates"],
+    };
+
+    const prompt = buildCandidatesPrompt(text, getLanguageName(sourceLanguageCode), targetLanguageName, count, options?.glossary);
+
+    try {
+        return await generateJson(prompt, schema, validateTranslationCandidates, options);
     } catch (error) {
-        console.error("Error getting emoji suggestions:", error);
-        throw new Error("Failed to get emoji suggestions.");
+        console.error("Error getting translation candidates:", error);
+        throw classifyError(error);
+    }
+};
+
+/**
+ * Identifies the language of a text.
+ * @param text The text.
+ * @returns A promise resolving to the detected language and the model's confidence.
+ */
+export const detectLanguage = async (text: string, options?: RequestOptions): Promise<LanguageDetection> => {
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            code: { type: Type.STRING, description: "The BCP-47 language tag of the text, e.g. 'en' or 'pt-BR'." },
+            confidence: { type: Type.NUMBER, description: "Confidence in the detection, from 0 to 1." },
+        },
+        required: ["code", "confidence"],
+    };
+
+    try {
+        return await generateJson(buildLanguageDetectionPrompt(text), schema, validateLanguageDetection, options);
+    } catch (error) {
+        console.error("Error detecting language:", error);
+        throw classifyError(error);
     }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: TranslationProvider = {
+    id: 'gemini',
+    name: 'Gemini',
+    model: GEMINI_MODEL,
+    isConfigured: () => Boolean(process.env.API_KEY),
+    getSentiment,
+    getTranslationAndSentiment,
+    streamTranslationAndSentiment,
+    getEmojiSuggestions,
+    getToneTargetedTranslation,
+    getTranslationCandidates,
+    detectLanguage,
+};
@@ -0,0 +1,58 @@
+import type { HistoryEntry } from '../types';
+import { HISTORY_STORE, withStore } from './indexedDb';
+
+/**
+ * Saves a translation run, replacing any entry with the same id.
+ * @param entry The entry to save.
+ */
+export const saveHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+  await withStore(HISTORY_STORE, 'readwrite', store => store.put(entry));
+};
+
+/**
+ * Lists every saved translation run, newest first.
+ */
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore<HistoryEntry[]>(HISTORY_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Deletes a saved translation run.
+ * @param id The id of the entry to delete.
+ */
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await withStore(HISTORY_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Marks or unmarks a saved translation run as a favorite.
+ * @param id The id of the entry to update.
+ * @param isFavorite The new favorite state.
+ */
+export const setHistoryFavorite = async (id: string, isFavorite: boolean): Promise<void> => {
+  const entry = await withStore<HistoryEntry | undefined>(HISTORY_STORE, 'readonly', store => store.get(id));
+  if (entry) {
+    await saveHistoryEntry({ ...entry, isFavorite });
+  }
+};
+
+/**
+ * Case-insensitive search over the texts, nuance and language names of an entry.
+ * @param entry The entry to test.
+ * @param query The search query; an empty query matches everything.
+ * @returns Whether the entry matches.
+ */
+export const matchesHistoryQuery = (entry: HistoryEntry, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return true;
+  }
+  return [
+    entry.sourceText,
+    entry.translatedText,
+    entry.nuance ?? '',
+    entry.sourceLanguage.name,
+    entry.targetLanguage.name,
+  ].some(field => field.toLowerCase().includes(needle));
+};
@@ -0,0 +1,65 @@
+const DB_NAME = 'sentiment-translator';
+const DB_VERSION = 3;
+
+export const HISTORY_STORE = 'history';
+export const BATCH_STORE = 'batchJobs';
+export const CACHE_STORE = 'responseCache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates or upgrades) the app's IndexedDB database.
+ * The connection is shared by every store module.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(BATCH_STORE)) {
+          db.createObjectStore(BATCH_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+export const promisifyRequest = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs a single request against an object store in its own transaction.
+ * @param storeName The object store to use.
+ * @param mode The transaction mode.
+ * @param action Builds the request from the store.
+ * @returns A promise resolving to the request's result.
+ */
+export const withStore = async <T,>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, mode).objectStore(storeName);
+  return promisifyRequest(action(store));
+};
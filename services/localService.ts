@@ -0,0 +1,248 @@
+import type { SentimentScore, EmojiSuggestion, TranslationResponse, TranslationProvider, TextStyle, SegmentAlignment, ToneTargetedTranslation, TranslationCandidate, RequestOptions, PartialTranslationResponse, LanguageDetection } from '../types';
+import { getEmojiLexicon, findEmojiInsertionPoint, insertEmoji } from '../emoji';
+import { detectModalParticles } from '../particles';
+import { segmentSentences } from '../segmentation';
+import { getCandidateStrategies } from './prompts';
+import { sleep } from './retry';
+import { guessLanguage, toLanguage } from '../languages';
+import { applyGlossary } from '../glossary';
+
+// A fixed delay keeps loading states visible while staying deterministic.
+const SIMULATED_LATENCY_MS = 300;
+const SIMULATED_STREAM_CHUNK_MS = 40;
+
+/**
+ * FNV-1a hash of a string, used to derive stable pseudo-scores from text.
+ */
+const hashText = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const scoreText = (text: string): SentimentScore => {
+  const hash = hashText(text.trim());
+  return {
+    score: Math.round(((hash % 2001) / 1000 - 1) * 100) / 100,
+    intimacy: (hash >>> 11) % 101,
+    formality: (hash >>> 19) % 101,
+  };
+};
+
+const classifyStyle = (text: string): TextStyle =>
+  /[?!~]|\.\.\./.test(text) || text.trim().length < 40 ? 'SPOKEN' : 'WRITTEN';
+
+/**
+ * Returns a stable pseudo-score derived from the text itself.
+ * @param text The text to analyze.
+ * @returns A promise that resolves to a SentimentScore object.
+ */
+export const getSentiment = async (text: string, options?: RequestOptions): Promise<SentimentScore> => {
+  if (!text.trim()) {
+    return { score: 0, intimacy: 50, formality: 50 };
+  }
+  await sleep(SIMULATED_LATENCY_MS, options?.signal);
+  const score = scoreText(text);
+  if (options?.temperature === undefined) return score;
+  // A temperature adds a stable jitter, so that multi-run scoring can be tried offline.
+  const hash = hashText(`${options.temperature}:${text.trim()}`);
+  const offset = (shift: number) => (((hash >>> shift) % 201) / 100 - 1) * options.temperature!;
+  return {
+    score: Math.round(Math.min(1, Math.max(-1, score.score + 0.15 * offset(0))) * 100) / 100,
+    intimacy: Math.round(Math.min(100, Math.max(0, score.intimacy + 10 * offset(8)))),
+    formality: Math.round(Math.min(100, Math.max(0, score.formality + 10 * offset(16)))),
+  };
+};
+
+/**
+ * Produces a placeholder "translation" by tagging each source sentence with the
+ * target language and applying the glossary, together with deterministic sentiment
+ * scores for both texts.
+ * @param text The text to translate.
+ * @param sourceLanguageCode The language code of the source text.
+ * @param targetLanguageName The full name of the target language (e.g., 'Korean').
+ * @returns A promise resolving to a TranslationResponse object.
+ */
+export const getTranslationAndSentiment = async (
+  text: string,
+  sourceLanguageCode: string,
+  targetLanguageName: string,
+  options?: RequestOptions
+): Promise<TranslationResponse> => {
+  await sleep(SIMULATED_LATENCY_MS, options?.signal);
+  const segments: SegmentAlignment[] = [];
+  let translation = '';
+  for (const sentence of segmentSentences(text, sourceLanguageCode)) {
+    if (translation) translation += ' ';
+    const translatedSentence = `[${targetLanguageName}] ${applyGlossary(sentence.text, options?.glossary ?? [])}`;
+    segments.push({
+      source: { ...sentence, sentiment: scoreText(sentence.text) },
+      translation: {
+        text: translatedSentence,
+        start: translation.length,
+        end: translation.length + translatedSentence.length,
+        sentiment: scoreText(translatedSentence),
+      },
+    });
+    translation += translatedSentence;
+  }
+  return {
+    translation,
+    sourceSentiment: scoreText(text),
+    translatedSentiment: scoreText(translation),
+    sourceStyle: classifyStyle(text),
+    translatedStyle: classifyStyle(translation),
+    nuance: undefined,
+    particles: detectModalParticles(text, sourceLanguageCode),
+    segments,
+    uiTranslations: {
+      formal: 'Formal',
+      intimate: 'Intimate',
+      negative: 'Negative',
+      positive: 'Positive',
+      spoken: 'Spoken',
+      written: 'Written',
+    },
+  };
+};
+
+/**
+ * Replays the placeholder translation word by word, then its scores and styles,
+ * so that the streaming UI can be exercised without an API key.
+ * @param onPartial Receives the fields "generated" so far.
+ * @returns A promise resolving to the complete TranslationResponse.
+ */
+export const streamTranslationAndSentiment = async (
+  text: string,
+  sourceLanguageCode: string,
+  targetLanguageName: string,
+  onPartial: (partial: PartialTranslationResponse) => void,
+  options?: RequestOptions
+): Promise<TranslationResponse> => {
+  const response = await getTranslationAndSentiment(text, sourceLanguageCode, targetLanguageName, options);
+  const words = response.translation.split(/(?<=\s)/);
+  for (let i = 1; i <= words.length; i++) {
+    onPartial({ translation: words.slice(0, i).join('') });
+    await sleep(SIMULATED_STREAM_CHUNK_MS, options?.signal);
+  }
+  const { translation, sourceSentiment, translatedSentiment, sourceStyle, translatedStyle } = response;
+  onPartial({ translation, sourceSentiment, translatedSentiment, sourceStyle, translatedStyle });
+  return response;
+};
+
+/**
+ * Suggests the three emojis whose lexicon scores are closest to the source score,
+ * each placed after the first sentence of the translation. The lexicon loaded for
+ * options.targetLanguageCode is used when there is one.
+ * @param sourceText The original text.
+ * @param translatedText The translated text.
+ * @param sourceScore The sentiment score of the original text.
+ * @param translatedScore The sentiment score of the translated text.
+ * @returns A promise that resolves to an EmojiSuggestion object.
+ */
+export const getEmojiSuggestions = async (
+  sourceText: string,
+  translatedText: string,
+  sourceScore: number,
+  translatedScore: number,
+  options?: RequestOptions
+): Promise<EmojiSuggestion> => {
+  await sleep(SIMULATED_LATENCY_MS, options?.signal);
+  const emojis = [...getEmojiLexicon(options?.targetLanguageCode).entries]
+    .sort((a, b) => Math.abs(a.score - sourceScore) - Math.abs(b.score - sourceScore))
+    .slice(0, 3)
+    .map(e => e.emoji);
+  const direction = sourceScore > translatedScore ? 'more positive' : 'more negative';
+  // Every emoji goes after the first sentence; the predicted score is simply the mock score of the result.
+  const after = segmentSentences(translatedText)[0]?.text ?? '';
+  return {
+    explanation: `The original text felt ${direction} than the translation.`,
+    emojis,
+    placements: emojis.map(emoji => ({
+      emoji,
+      after,
+      predictedSentiment: scoreText(insertEmoji(translatedText, emoji, findEmojiInsertionPoint(translatedText, after))),
+    })),
+  };
+};
+
+/**
+ * Tags the current translation with the requested tone. The mock cannot
+ * actually rephrase, so re-scoring the result will not land on the target.
+ * @param text The original text.
+ * @param sourceLanguageCode The language code of the source text.
+ * @param targetLanguageName The full name of the target language (e.g., 'Korean').
+ * @param currentTranslation The translation to adjust.
+ * @param target The desired sentiment, intimacy and formality.
+ * @returns A promise that resolves to the rewritten translation and its style.
+ */
+export const getToneTargetedTranslation = async (
+  text: string,
+  sourceLanguageCode: string,
+  targetLanguageName: string,
+  currentTranslation: string,
+  target: SentimentScore,
+  options?: RequestOptions
+): Promise<ToneTargetedTranslation> => {
+  await sleep(SIMULATED_LATENCY_MS, options?.signal);
+  const tone = `s${target.score.toFixed(1)} i${Math.round(target.intimacy)} f${Math.round(target.formality)}`;
+  const untagged = currentTranslation.replace(/^\(tone [^)]*\) /, '');
+  return {
+    translation: `(tone ${tone}) ${untagged}`,
+    translatedStyle: target.formality >= 50 ? 'WRITTEN' : 'SPOKEN',
+  };
+};
+
+/**
+ * Produces one tagged placeholder translation per strategy.
+ * @param text The text to translate.
+ * @param sourceLanguageCode The language code of the source text.
+ * @param targetLanguageName The full name of the target language (e.g., 'Korean').
+ * @param count How many candidates to produce.
+ * @returns A promise that resolves to the scored candidates, in strategy order.
+ */
+export const getTranslationCandidates = async (
+  text: string,
+  sourceLanguageCode: string,
+  targetLanguageName: string,
+  count: number,
+  options?: RequestOptions
+): Promise<TranslationCandidate[]> => {
+  await sleep(SIMULATED_LATENCY_MS, options?.signal);
+  return getCandidateStrategies(count).map(strategy => {
+    const translation = `[${targetLanguageName} · ${strategy}] ${text}`;
+    return {
+      strategy,
+      translation,
+      sentiment: scoreText(translation),
+      style: classifyStyle(translation),
+    };
+  });
+};
+
+/**
+ * Guesses the language of a text from its script and common words.
+ * @param text The text.
+ * @returns A promise resolving to the guess; English with zero confidence for text without letters.
+ */
+export const detectLanguage = async (text: string, options?: RequestOptions): Promise<LanguageDetection> => {
+  await sleep(SIMULATED_LATENCY_MS, options?.signal);
+  return guessLanguage(text) ?? { language: toLanguage('en'), confidence: 0 };
+};
+
+export const localProvider: TranslationProvider = {
+  id: 'local',
+  name: 'Local mock (offline)',
+  model: 'local-mock',
+  isConfigured: () => true,
+  getSentiment,
+  getTranslationAndSentiment,
+  streamTranslationAndSentiment,
+  getEmojiSuggestions,
+  getToneTargetedTranslation,
+  getTranslationCandidates,
+  detectLanguage,
+};
@@ -0,0 +1,356 @@
+import type { SentimentScore, EmojiSuggestion, TranslationResponse, TranslationProvider, ToneTargetedTranslation, TranslationCandidate, RequestOptions, PartialTranslationResponse, LanguageDetection } from '../types';
+import { buildSentimentPrompt, buildTranslationPrompt, buildEmojiSuggestionPrompt, buildToneTargetPrompt, buildCandidatesPrompt, buildLanguageDetectionPrompt } from './prompts';
+import { locateModalParticles } from '../particles';
+import { locateSegments } from '../segmentation';
+import {
+  requestValidated,
+  extractPartialTranslation,
+  validateSentimentScore,
+  validateTranslationResponse,
+  validateEmojiSuggestion,
+  validateToneTargetedTranslation,
+  validateTranslationCandidates,
+  validateLanguageDetection,
+} from './validation';
+import { AuthError, SafetyBlockError, classifyError, errorFromStatus } from './errors';
+import { withRetry } from './retry';
+import { parsePartialJson } from '../partialJson';
+import { getLanguageName } from '../languages';
+import { resolveModel, resolveSystemInstruction, resolveTemperature } from './settings';
+
+// Any server speaking the OpenAI chat completions protocol works here
+// (OpenAI itself, Azure, OpenRouter, a local Ollama or vLLM instance, ...).
+const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
+const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+
+const SENTIMENT_SHAPE = '{ "score": number, "intimacy": number, "formality": number }';
+
+const TRANSLATION_SHAPE = `{
+  "translation": string,
+  "sourceStyle": "SPOKEN" | "WRITTEN",
+  "translatedStyle": "SPOKEN" | "WRITTEN",
+  "sourceSentiment": ${SENTIMENT_SHAPE},
+  "translatedSentiment": ${SENTIMENT_SHAPE},
+  "nuance": string | null,
+  "particles": [{ "text": string, "language": string, "function": string, "scoreContribution": number, "intimacyContribution": number, "formalityContribution": number }],
+  "segments": [{ "source": string, "translation": string, "sourceSentiment": ${SENTIMENT_SHAPE}, "translatedSentiment": ${SENTIMENT_SHAPE} }],
+  "uiTranslations": { "formal": string, "intimate": string, "negative": string, "positive": string, "spoken": string, "written": string }
+}`;
+
+const EMOJI_SUGGESTION_SHAPE = `{
+  "explanation": string,
+  "emojis": [string, string, string],
+  "placements": [{ "emoji": string, "after": string, "predictedSentiment": ${SENTIMENT_SHAPE} }]
+}`;
+
+const TONE_TARGET_SHAPE = '{ "translation": string, "translatedStyle": "SPOKEN" | "WRITTEN" }';
+
+const LANGUAGE_DETECTION_SHAPE = '{ "code": string, "confidence": number }';
+
+const CANDIDATES_SHAPE = `{ "candidates": [{ "strategy": string, "translation": string, "sentiment": ${SENTIMENT_SHAPE}, "style": "SPOKEN" | "WRITTEN" }] }`;
+
+const assertNotFiltered = (finishReason: string | undefined) => {
+  if (finishReason === 'content_filter') {
+    throw new SafetyBlockError("The provider's content filter blocked the response.");
+  }
+};
+
+/**
+ * Sends a prompt to the chat completions endpoint in JSON mode.
+ * @param prompt The user prompt.
+ * @param shape A description of the expected JSON object, appended to the prompt.
+ * @param signal Aborts the HTTP request.
+ * @param onText If given, the reply is streamed and this receives the text generated so far.
+ * @returns A promise resolving to the raw reply text.
+ */
+const requestCompletion = async (
+  prompt: string,
+  shape: string,
+  signal?: AbortSignal,
+  onText?: (text: string) => void,
+  temperature?: number
+): Promise<string | undefined> => {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new AuthError("OPENAI_API_KEY environment variable not set");
+  }
+  const systemInstruction = resolveSystemInstruction();
+
+  const response = await fetch(`${OPENAI_BASE_URL}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
+    },
+    body: JSON.stringify({
+      model: resolveModel('openai', OPENAI_MODEL),
+      stream: Boolean(onText),
+      temperature,
+      response_format: { type: 'json_object' },
+      messages: [
+        ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+        { role: 'user', content: `${prompt}\n\nRespond only with a JSON object of this shape:\n${shape}` },
+      ],
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw errorFromStatus(response.status, detail.slice(0, 200), response.headers.get('Retry-After'));
+  }
+
+  if (!onText) {
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    assertNotFiltered(choice?.finish_reason);
+    return choice?.message?.content;
+  }
+
+  // Server-sent events: one `data: {...}` line per chunk, terminated by `data: [DONE]`.
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  const handleLine = (line: string) => {
+    const data = line.replace(/^data:\s*/, '').trim();
+    if (!line.startsWith('data:') || data === '[DONE]') return;
+    let event;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      // Keep-alives and malformed chunks carry no text; the reply is validated as a whole at the end.
+      console.warn("Skipping an unreadable stream event:", data.slice(0, 100));
+      return;
+    }
+    const choice = event.choices?.[0];
+    assertNotFiltered(choice?.finish_reason);
+    if (choice?.delta?.content) {
+      text += choice.delta.content;
+      onText(text);
+    }
+  };
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  // The last event may end without a newline.
+  handleLine(buffer);
+  return text;
+};
+
+/**
+ * Requests a JSON reply and validates it, with one repair attempt unless the caller opted out.
+ * Transient failures are retried with backoff.
+ * @param prompt The user prompt.
+ * @param shape A description of the expected JSON object.
+ * @param validate Validates and normalizes the parsed reply.
+ * @param options Request options.
+ * @param onText If given, the reply is streamed and this receives the text generated so far.
+ * @returns A promise resolving to the validated reply.
+ */
+const requestJson = <T,>(
+  prompt: string,
+  shape: string,
+  validate: (raw: unknown) => T,
+  options?: RequestOptions,
+  onText?: (text: string) => void
+): Promise<T> =>
+  requestValidated(
+    p => withRetry(signal => requestCompletion(p, shape, signal, onText, resolveTemperature('openai', options)), options),
+    prompt,
+    validate,
+    options?.repairInvalid ?? true
+  );
+
+/**
+ * Analyzes the sentiment of a given text.
+ * @param text The text to analyze.
+ * @returns A promise that resolves to a SentimentScore object.
+ */
+export const getSentiment = async (text: string, options?: RequestOptions): Promise<SentimentScore> => {
+  if (!text.trim()) {
+    return { score: 0, intimacy: 50, formality: 50 };
+  }
+
+  try {
+    return await requestJson(buildSentimentPrompt(text), SENTIMENT_SHAPE, validateSentimentScore, options);
+  } catch (error) {
+    console.error("Error analyzing sentiment:", error);
+    // Callers decide how to degrade; a fake neutral score must not end up in the response cache.
+    throw classifyError(error);
+  }
+};
+
+/**
+ * Translates text, analyzes sentiment for both original and translated text,
+ * and provides an explanation of any subtle nuance in the source text.
+ * @param text The text to translate.
+ * @param sourceLanguageCode The language code of the source text.
+ * @param targetLanguageName The full name of the target language (e.g., 'Korean').
+ * @param options Request options.
+ * @param onPartial If given, the reply is streamed and this receives the fields generated so far.
+ * @returns A promise resolving to a TranslationResponse object.
+ */
+const requestTranslation = async (
+  text: string,
+  sourceLanguageCode: string,
+  targetLanguageName: string,
+  options?: RequestOptions,
+  onPartial?: (partial: PartialTranslationResponse) => void
+): Promise<TranslationResponse> => {
+  try {
+    const { particles, segments, ...parsed } = await requestJson(
+      buildTranslationPrompt(text, getLanguageName(sourceLanguageCode), targetLanguageName, options?.audience, options?.glossary, options?.context),
+      TRANSLATION_SHAPE,
+      validateTranslationResponse,
+      options,
+      onPartial && (partialText => onPartial(extractPartialTranslation(parsePartialJson(partialText))))
+    );
+    return {
+      ...parsed,
+      particles: locateModalParticles(text, particles),
+      segments: locateSegments(text, parsed.translation, segments),
+    };
+  } catch (error) {
+    console.error("Error in translation and sentiment analysis:", error);
+    throw classifyError(error);
+  }
+};
+
+export const getTranslationAndSentiment = (
+  text: string,
+  sourceLanguageCode: string,
+  targetLanguageName: string,
+  options?: RequestOptions
+): Promise<TranslationResponse> => requestTranslation(text, sourceLanguageCode, targetLanguageName, options);
+
+/**
+ * Streams a translation, reporting the translation text, sentiments, styles and
+ * nuance as soon as each has been generated.
+ * @param onPartial Receives the fields generated so far.
+ * @returns A promise resolving to the complete TranslationResponse.
+ */
+export const streamTranslationAndSentiment = (
+  text: string,
+  sourceLanguageCode: string,
+  targetLanguageName: string,
+  onPartial: (partial: PartialTranslationResponse) => void,
+  options?: RequestOptions
+): Promise<TranslationResponse> => requestTranslation(text, sourceLanguageCode, targetLanguageName, options, onPartial);
+
+/**
+ * Gets emoji suggestions to bridge the sentiment gap between two texts.
+ * @param sourceText The original text.
+ * @param translatedText The translated text.
+ * @param sourceScore The sentiment score of the original text.
+ * @param translatedScore The sentiment score of the translated text.
+ * @returns A promise that resolves to an EmojiSuggestion object.
+ */
+export const getEmojiSuggestions = async (
+  sourceText: string,
+  translatedText: string,
+  sourceScore: number,
+  translatedScore: number,
+  options?: RequestOptions
+): Promise<EmojiSuggestion> => {
+  try {
+    return await requestJson(
+      buildEmojiSuggestionPrompt(sourceText, translatedText, sourceScore, translatedScore),
+      EMOJI_SUGGESTION_SHAPE,
+      validateEmojiSuggestion,
+      options
+    );
+  } catch (error) {
+    console.error("Error getting emoji suggestions:", error);
+    throw classifyError(error);
+  }
+};
+
+/**
+ * Rewrites a translation so that its tone lands near a target point on the sentiment map.
+ * @param text The original text.
+ * @param sourceLanguageCode The language code of the source text.
+ * @param targetLanguageName The full name of the target language (e.g., 'Korean').
+ * @param currentTranslation The translation to adjust.
+ * @param target The desired sentiment, intimacy and formality.
+ * @returns A promise that resolves to the rewritten translation and its style.
+ */
+export const getToneTargetedTranslation = async (
+  text: string,
+  sourceLanguageCode: string,
+  targetLanguageName: string,
+  currentTranslation: string,
+  target: SentimentScore,
+  options?: RequestOptions
+): Promise<ToneTargetedTranslation> => {
+  try {
+    return await requestJson(
+      buildToneTargetPrompt(text, getLanguageName(sourceLanguageCode), targetLanguageName, currentTranslation, target, options?.glossary),
+      TONE_TARGET_SHAPE,
+      validateToneTargetedTranslation,
+      options
+    );
+  } catch (error) {
+    console.error("Error in tone-targeted translation:", error);
+    throw classifyError(error);
+  }
+};
+
+/**
+ * Produces several alternative translations, each following a different strategy.
+ * @param text The text to translate.
+ * @param sourceLanguageCode The language code of the source text.
+ * @param targetLanguageName The full name of the target language (e.g., 'Korean').
+ * @param count How many candidates to produce.
+ * @returns A promise that resolves to the scored candidates, in strategy order.
+ */
+export const getTranslationCandidates = async (
+  text: string,
+  sourceLanguageCode: string,
+  targetLanguageName: string,
+  count: number,
+  options?: RequestOptions
+): Promise<TranslationCandidate[]> => {
+  try {
+    return await requestJson(
+      buildCandidatesPrompt(text, getLanguageName(sourceLanguageCode), targetLanguageName, count, options?.glossary),
+      CANDIDATES_SHAPE,
+      validateTranslationCandidates,
+      options
+    );
+  } catch (error) {
+    console.error("Error getting translation candidates:", error);
+    throw classifyError(error);
+  }
+};
+
+/**
+ * Identifies the language of a text.
+ * @param text The text.
+ * @returns A promise resolving to the detected language and the model's confidence.
+ */
+export const detectLanguage = async (text: string, options?: RequestOptions): Promise<LanguageDetection> => {
+  try {
+    return await requestJson(buildLanguageDetectionPrompt(text), LANGUAGE_DETECTION_SHAPE, validateLanguageDetection, options);
+  } catch (error) {
+    console.error("Error detecting language:", error);
+    throw classifyError(error);
+  }
+};
+
+export const openAiProvider: TranslationProvider = {
+  id: 'openai',
+  name: 'OpenAI-compatible',
+  model: OPENAI_MODEL,
+  isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+  getSentiment,
+  getTranslationAndSentiment,
+  streamTranslationAndSentiment,
+  getEmojiSuggestions,
+  getToneTargetedTranslation,
+  getTranslationCandidates,
+  detectLanguage,
+};
@@ -0,0 +1,295 @@
+import type { PromptTemplate, PromptTemplateId } from '../types';
+
+const PROMPT_TEMPLATES_STORAGE_KEY = 'sentiment-translator:prompt-templates';
+
+// The variables each prompt is rendered with, written as {{name}} in a template.
+export const PROMPT_VARIABLES: Record<PromptTemplateId, string[]> = {
+  sentiment: ['text'],
+  translation: ['text', 'sourceLanguage', 'targetLanguage', 'audience', 'glossary', 'context'],
+  emojiSuggestion: ['sourceText', 'translatedText', 'sourceScore', 'translatedScore'],
+  toneTarget: ['text', 'sourceLanguage', 'targetLanguage', 'currentTranslation', 'targetScore', 'targetIntimacy', 'targetFormality', 'glossary'],
+  candidates: ['text', 'sourceLanguage', 'targetLanguage', 'count', 'strategies', 'glossary'],
+  languageDetection: ['text'],
+};
+
+// Built-in prompts that gained optional instructions keep their older versions, so that
+// recorded results stay traceable. Each builder fills in the part that differs between them.
+const buildTranslationTemplate = (extras: string): string => `You are an expert linguist and cultural translator. Your task is to translate text while being highly sensitive to subtle meanings.
+1. Provide a natural and direct translation of the following {{sourceLanguage}} text into {{targetLanguage}}. The translation should sound like it was written by a native speaker.
+2. Analyze the ORIGINAL text for any subtle nuances, culturally specific phrases, ambiguities, or emotional undertones that might be lost or altered in a direct translation. Provide a short, one-sentence explanation of this key nuance IN {{targetLanguage}}. For example, you might point out if a word has a double meaning, if the tone is sarcastic, or if a phrase is a specific cultural reference. If no significant nuance is found, return null for the nuance explanation.
+3. For the ORIGINAL text, provide: a sentiment score (-1.0 to 1.0), an intimacy score (0-100), a formality score (0-100), and classify its style as either 'SPOKEN' or 'WRITTEN'.
+4. For the TRANSLATION you generated, provide: a sentiment score (-1.0 to 1.0), an intimacy score (0-100), a formality score (0-100), and classify its style as either 'SPOKEN' or 'WRITTEN'.
+5. Translate the following UI labels into {{targetLanguage}}: 'Formal', 'Intimate', 'Negative', 'Positive', 'Spoken', 'Written'.
+6. List every modal particle in the ORIGINAL text (e.g. German 'ja', 'doch', 'mal'; Korean, Japanese, Thai or Chinese sentence-final particles), in order of appearance. For each, give the particle exactly as written, its language code, a few words on its pragmatic function, and its estimated contribution to the sentiment score (-1.0 to 1.0), intimacy (-100 to 100) and formality (-100 to 100) of the original text. Return an empty list if there are none.
+7. Split the ORIGINAL text into sentences (or clauses, for long sentences) and pair each with the part of your TRANSLATION that renders it, in order. Copy both parts exactly as they appear in the original and in your translation. For each part, provide a sentiment score (-1.0 to 1.0), an intimacy score (0-100) and a formality score (0-100). A text with a single sentence yields a single pair.
+${extras}
+Provide your response strictly as a JSON object that conforms to the provided schema. Do not include any extra text or formatting.
+Original Text: "{{text}}"`;
+
+const buildToneTargetTemplate = (extras: string): string => `You are an expert linguist and cultural translator. The following {{sourceLanguage}} text was translated into {{targetLanguage}}, but the tone of the translation needs adjusting.
+Rewrite the translation so that it keeps the meaning of the original but reads with:
+- a sentiment score of about {{targetScore}} (-1.0 very negative to 1.0 very positive),
+- an intimacy score of about {{targetIntimacy}} (0 distant to 100 intimate),
+- a formality score of about {{targetFormality}} (0 informal to 100 formal).
+Adjust word choice, honorifics, particles and sentence endings rather than adding or removing content. Also classify the style of your new translation as either 'SPOKEN' or 'WRITTEN'.
+${extras}Provide your response as a JSON object.
+Original Text: "{{text}}"
+Current Translation: "{{currentTranslation}}"`;
+
+const buildCandidatesTemplate = (extras: string): string => `You are an expert linguist and cultural translator. Produce {{count}} different translations of the following {{sourceLanguage}} text into {{targetLanguage}}, one for each of these strategies, in this order: {{strategies}}.
+- 'literal' stays as close as possible to the wording of the original.
+- 'natural' reads as a native speaker would phrase it.
+- 'emotionally faithful' prioritises carrying over the feeling, intimacy and politeness of the original, even at the cost of wording.
+- Any 'alternative' is another plausible rendering that differs noticeably from the others.
+For each translation, give the strategy name, the translation, its sentiment score (-1.0 to 1.0), intimacy score (0-100), formality score (0-100), and classify its style as either 'SPOKEN' or 'WRITTEN'.
+${extras}Provide your response as a JSON object.
+Original Text: "{{text}}"`;
+
+export const BUILT_IN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'sentiment',
+    version: '1',
+    name: 'Sentiment scoring',
+    isBuiltIn: true,
+    template: `Analyze the sentiment of the following text. Provide:
+1.  A sentiment score between -1.0 (very negative) and 1.0 (very positive).
+2.  An intimacy score between 0 (distant) and 100 (intimate).
+3.  A formality score between 0 (informal) and 100 (formal).
+Text: "{{text}}"`,
+  },
+  {
+    id: 'translation',
+    version: '1',
+    name: 'Translation with analysis',
+    isBuiltIn: true,
+    template: buildTranslationTemplate(''),
+  },
+  {
+    id: 'translation',
+    version: '2',
+    name: 'Translation with analysis',
+    isBuiltIn: true,
+    template: buildTranslationTemplate('{{audience}}'),
+  },
+  {
+    id: 'translation',
+    version: '3',
+    name: 'Translation with analysis',
+    isBuiltIn: true,
+    template: buildTranslationTemplate('{{audience}}{{glossary}}'),
+  },
+  {
+    id: 'translation',
+    version: '4',
+    name: 'Translation with analysis',
+    isBuiltIn: true,
+    template: buildTranslationTemplate('{{audience}}{{glossary}}{{context}}'),
+  },
+  {
+    id: 'emojiSuggestion',
+    version: '1',
+    name: 'Emoji suggestions',
+    isBuiltIn: true,
+    template: `The original text has a sentiment score of {{sourceScore}} and the following translated text has a score of {{translatedScore}}.
+Original text: "{{sourceText}}"
+Translation: "{{translatedText}}"
+
+1. In one short sentence, explain the emotional nuance difference from the original to the translation. For example, "The original text felt slightly more playful."
+2. Suggest exactly 3 emojis that could be added to the translation to better match the original sentiment.
+3. For each emoji, recommend where it should go: give the exact fragment of the translation (a clause, a particle or a sentence ending, copied verbatim) that the emoji should directly follow, or an empty string to put it at the very end. Where an emoji sits changes how the sentence is read, so choose the position that best restores the original's tone.
+4. For each emoji, predict the sentiment of the whole translation once the emoji is inserted at that position, as a score from -1.0 to 1.0, an intimacy from 0 to 100 and a formality from 0 to 100.
+Provide your response as a JSON object.`,
+  },
+  {
+    id: 'toneTarget',
+    version: '1',
+    name: 'Tone-targeted rewrite',
+    isBuiltIn: true,
+    template: buildToneTargetTemplate(''),
+  },
+  {
+    id: 'toneTarget',
+    version: '2',
+    name: 'Tone-targeted rewrite',
+    isBuiltIn: true,
+    template: buildToneTargetTemplate('{{glossary}}'),
+  },
+  {
+    id: 'candidates',
+    version: '1',
+    name: 'Alternative translations',
+    isBuiltIn: true,
+    template: buildCandidatesTemplate(''),
+  },
+  {
+    id: 'candidates',
+    version: '2',
+    name: 'Alternative translations',
+    isBuiltIn: true,
+    template: buildCandidatesTemplate('{{glossary}}'),
+  },
+  {
+    id: 'languageDetection',
+    version: '1',
+    name: 'Language detection',
+    isBuiltIn: true,
+    template: `Identify the language of the following text.
+Give its BCP-47 language tag, using the shortest tag that identifies the language (e.g. 'en', 'ko') and adding a script or region subtag only when the text clearly shows it (e.g. 'zh-Hant', 'pt-BR').
+Also give your confidence from 0 (a guess) to 1 (certain).
+Provide your response as a JSON object.
+Text: "{{text}}"`,
+  },
+];
+
+interface StoredPromptTemplates {
+  custom: PromptTemplate[];
+  active: Partial<Record<PromptTemplateId, string>>;
+}
+
+const readStoredTemplates = (): StoredPromptTemplates => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROMPT_TEMPLATES_STORAGE_KEY) ?? '{}');
+    return {
+      custom: Array.isArray(stored.custom) ? stored.custom : [],
+      active: stored.active && typeof stored.active === 'object' ? stored.active : {},
+    };
+  } catch {
+    return { custom: [], active: {} };
+  }
+};
+
+let stored: StoredPromptTemplates = typeof localStorage === 'undefined' ? { custom: [], active: {} } : readStoredTemplates();
+
+const saveStoredTemplates = () => {
+  try {
+    localStorage.setItem(PROMPT_TEMPLATES_STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.warn("Could not save prompt templates:", error);
+  }
+};
+
+const findVariables = (template: string): string[] =>
+  [...new Set([...template.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map(m => m[1]))];
+
+/**
+ * Lists every version of a prompt: the built-in ones first, then the user's, oldest first.
+ * @param id The prompt.
+ * @returns The versions.
+ */
+export const getPromptTemplates = (id: PromptTemplateId): PromptTemplate[] => [
+  ...BUILT_IN_PROMPT_TEMPLATES.filter(t => t.id === id),
+  ...stored.custom.filter(t => t.id === id),
+];
+
+/**
+ * The version of a prompt that is sent to the model. Falls back to the newest
+ * built-in version if none is selected or the selected one no longer exists.
+ * @param id The prompt.
+ * @returns The active template.
+ */
+export const getActivePromptTemplate = (id: PromptTemplateId): PromptTemplate => {
+  const builtIns = BUILT_IN_PROMPT_TEMPLATES.filter(t => t.id === id);
+  return getPromptTemplates(id).find(t => t.version === stored.active[id]) ?? builtIns[builtIns.length - 1];
+};
+
+/**
+ * The active version of every prompt, for recording alongside a result.
+ * @returns The version per prompt.
+ */
+export const getActivePromptVersions = (): Record<PromptTemplateId, string> =>
+  Object.fromEntries(
+    (Object.keys(PROMPT_VARIABLES) as PromptTemplateId[]).map(id => [id, getActivePromptTemplate(id).version])
+  ) as Record<PromptTemplateId, string>;
+
+/**
+ * Selects which version of a prompt is sent from now on.
+ * @param id The prompt.
+ * @param version An existing version of it.
+ * @throws Error if the version does not exist.
+ */
+export const setActivePromptVersion = (id: PromptTemplateId, version: string): void => {
+  if (!getPromptTemplates(id).some(t => t.version === version)) {
+    throw new Error(`There is no version "${version}" of the ${id} prompt.`);
+  }
+  stored = { ...stored, active: { ...stored.active, [id]: version } };
+  saveStoredTemplates();
+};
+
+/**
+ * Checks a template against the variables its prompt is rendered with.
+ * @param id The prompt.
+ * @param template The template text.
+ * @returns The unknown variables it uses, which are errors, and the known ones it leaves out,
+ * which are allowed but usually a mistake.
+ */
+export const checkPromptTemplate = (id: PromptTemplateId, template: string): { unknown: string[]; missing: string[] } => {
+  const used = findVariables(template);
+  return {
+    unknown: used.filter(v => !PROMPT_VARIABLES[id].includes(v)),
+    missing: PROMPT_VARIABLES[id].filter(v => !used.includes(v)),
+  };
+};
+
+/**
+ * Saves a new version of a prompt and makes it active. Versions are never edited
+ * in place, so results recorded with a version can always be traced back to its text.
+ * @param template The new version.
+ * @returns The saved template.
+ * @throws Error if the version is taken, or the template uses a variable its prompt does not have.
+ */
+export const saveCustomPromptTemplate = (template: Omit<PromptTemplate, 'isBuiltIn'>): PromptTemplate => {
+  const version = template.version.trim();
+  if (!version) {
+    throw new Error("A prompt version needs a name.");
+  }
+  if (getPromptTemplates(template.id).some(t => t.version === version)) {
+    throw new Error(`Version "${version}" of the ${template.id} prompt already exists.`);
+  }
+  const { unknown } = checkPromptTemplate(template.id, template.template);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown variables: ${unknown.map(v => `{{${v}}}`).join(', ')}.`);
+  }
+  const saved: PromptTemplate = { ...template, version };
+  stored = { custom: [...stored.custom, saved], active: { ...stored.active, [saved.id]: version } };
+  saveStoredTemplates();
+  return saved;
+};
+
+/**
+ * Deletes a version the user saved; built-in versions cannot be deleted. If it was
+ * active, the newest built-in version becomes active again.
+ * @param id The prompt.
+ * @param version The version to delete.
+ */
+export const deleteCustomPromptTemplate = (id: PromptTemplateId, version: string): void => {
+  const active = { ...stored.active };
+  if (active[id] === version) delete active[id];
+  stored = { custom: stored.custom.filter(t => t.id !== id || t.version !== version), active };
+  saveStoredTemplates();
+};
+
+/**
+ * Fills a template's {{variables}}; unknown ones are left as written.
+ * @param template The template text.
+ * @param variables The values.
+ * @returns The prompt.
+ */
+export const renderPromptTemplate = (template: string, variables: Record<string, string | number>): string =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => (name in variables ? String(variables[name]) : match));
+
+/**
+ * Renders the active version of a prompt. A version may leave out a variable, e.g.
+ * an older one without {{audience}}; a value given for it is then dropped, with a warning.
+ * @param id The prompt.
+ * @param variables The values of its variables.
+ * @returns The prompt.
+ */
+export const renderPrompt = (id: PromptTemplateId, variables: Record<string, string | number>): string => {
+  const { template, version } = getActivePromptTemplate(id);
+  const { missing } = checkPromptTemplate(id, template);
+  const dropped = missing.filter(v => variables[v] !== undefined && variables[v] !== '');
+  if (dropped.length > 0) {
+    console.warn(`Version ${version} of the ${id} prompt does not use ${dropped.map(v => `{{${v}}}`).join(', ')}, so the request leaves them out.`);
+  }
+  return renderPromptTemplate(template, variables);
+};
@@ -0,0 +1,146 @@
+import type { AudienceProfile, ConversationTurn, EmojiPolicy, GlossaryEntry, HonorificLevel, SentimentScore } from '../types';
+import { isDoNotTranslate } from '../glossary';
+import { renderPrompt } from './promptTemplates';
+
+/**
+ * Prompt builders shared by every LLM-backed provider, so that switching
+ * vendors does not change what the model is asked. The wording comes from the
+ * active version of each prompt template.
+ */
+
+export const buildSentimentPrompt = (text: string): string => renderPrompt('sentiment', { text });
+
+export const buildLanguageDetectionPrompt = (text: string): string => renderPrompt('languageDetection', { text });
+
+const HONORIFIC_INSTRUCTIONS: Record<HonorificLevel, string> = {
+    casual: 'Use casual, plain speech (e.g. Korean banmal, Japanese plain forms, German "du").',
+    polite: 'Use polite speech (e.g. Korean haeyo-che, Japanese desu/masu forms, German "Sie").',
+    honorific: 'Use honorific speech (e.g. Korean hapsyo-che with honorific verb forms, Japanese keigo, formal address with titles).',
+};
+
+const EMOJI_POLICY_INSTRUCTIONS: Record<EmojiPolicy, string> = {
+    none: 'Do not use any emojis, and drop any the original has.',
+    sparing: 'Use at most one emoji, and only where the original has one.',
+    encouraged: 'Emojis are welcome where they suit the tone.',
+};
+
+/**
+ * Describes an audience as an extra instruction for the translation prompt.
+ * @param audience The audience profile, if any.
+ * @returns The instruction, ending in a newline, or an empty string without a profile.
+ */
+export const buildAudienceInstructions = (audience?: AudienceProfile): string => {
+    if (!audience) return '';
+    return `Write the translation for this audience: ${audience.name}. It should read with a formality score between ${audience.formality.min} and ${audience.formality.max} and an intimacy score between ${audience.intimacy.min} and ${audience.intimacy.max}. ${HONORIFIC_INSTRUCTIONS[audience.honorifics]} ${EMOJI_POLICY_INSTRUCTIONS[audience.emojiPolicy]}${audience.notes ? ` ${audience.notes}` : ''}
+`;
+};
+
+/**
+ * Lists glossary terms as an extra instruction for prompts that produce translations.
+ * @param glossary The entries to enforce, if any.
+ * @returns The instruction, ending in a newline, or an empty string without entries.
+ */
+export const buildGlossaryInstructions = (glossary?: GlossaryEntry[]): string => {
+    if (!glossary?.length) return '';
+    const lines = glossary.map(entry => {
+        const rendering = isDoNotTranslate(entry) ? 'keep it untranslated, exactly as written' : `"${entry.translation}"`;
+        return `- "${entry.term}": ${rendering}${entry.notes ? ` (${entry.notes})` : ''}`;
+    });
+    return `Follow this glossary. Wherever one of these terms occurs in the original, render it exactly as given, adapting only the particles or inflection around it:
+${lines.join('\n')}
+`;
+};
+
+/**
+ * Quotes the earlier messages of a conversation as context for translating the next one.
+ * @param context The earlier messages, oldest first, if any.
+ * @returns The instruction, ending in a newline, or an empty string without context.
+ */
+export const buildConversationContext = (context?: ConversationTurn[]): string => {
+    if (!context?.length) return '';
+    const lines = context.map(turn =>
+        `- ${turn.speaker || 'Unknown'}: "${turn.text}"${turn.translation ? ` (translated as "${turn.translation}")` : ''}`
+    );
+    return `The Original Text is the next message of a conversation. These are the messages before it, oldest first:
+${lines.join('\n')}
+Use them only as context: resolve references, and keep terms of address, speech levels and tone consistent with the earlier translations. Translate and analyze only the Original Text.
+`;
+};
+
+export const buildTranslationPrompt = (
+    text: string,
+    sourceLanguageName: string,
+    targetLanguageName: string,
+    audience?: AudienceProfile,
+    glossary?: GlossaryEntry[],
+    context?: ConversationTurn[]
+): string => renderPrompt('translation', {
+    text,
+    sourceLanguage: sourceLanguageName,
+    targetLanguage: targetLanguageName,
+    audience: buildAudienceInstructions(audience),
+    glossary: buildGlossaryInstructions(glossary),
+    context: buildConversationContext(context),
+});
+
+export const buildEmojiSuggestionPrompt = (
+    sourceText: string,
+    translatedText: string,
+    sourceScore: number,
+    translatedScore: number
+): string => renderPrompt('emojiSuggestion', {
+    sourceText,
+    translatedText,
+    sourceScore: sourceScore.toFixed(2),
+    translatedScore: translatedScore.toFixed(2),
+});
+
+export const buildToneTargetPrompt = (
+    text: string,
+    sourceLanguageName: string,
+    targetLanguageName: string,
+    currentTranslation: string,
+    target: SentimentScore,
+    glossary?: GlossaryEntry[]
+): string => renderPrompt('toneTarget', {
+    text,
+    sourceLanguage: sourceLanguageName,
+    targetLanguage: targetLanguageName,
+    currentTranslation,
+    targetScore: target.score.toFixed(2),
+    targetIntimacy: Math.round(target.intimacy),
+    targetFormality: Math.round(target.formality),
+    glossary: buildGlossaryInstructions(glossary),
+});
+
+// The first candidates follow these strategies; any further ones are free alternatives.
+export const CANDIDATE_STRATEGIES = ['literal', 'natural', 'emotionally faithful'];
+
+export const getCandidateStrategies = (count: number): string[] =>
+    Array.from({ length: count }, (_, i) => CANDIDATE_STRATEGIES[i] ?? `alternative ${i - CANDIDATE_STRATEGIES.length + 1}`);
+
+export const buildCandidatesPrompt = (
+    text: string,
+    sourceLanguageName: string,
+    targetLanguageName: string,
+    count: number,
+    glossary?: GlossaryEntry[]
+): string => renderPrompt('candidates', {
+    text,
+    sourceLanguage: sourceLanguageName,
+    targetLanguage: targetLanguageName,
+    count,
+    strategies: getCandidateStrategies(count).map(s => `'${s}'`).join(', '),
+    glossary: buildGlossaryInstructions(glossary),
+});
+
+export const buildRepairPrompt = (
+    originalPrompt: string,
+    previousResponse: string,
+    issues: string[]
+): string => `${originalPrompt}
+
+Your previous response could not be used because of these problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+Previous response: ${previousResponse}
+Reply again with a corrected JSON object only.`;
@@ -0,0 +1,27 @@
+import type { ProviderId, TranslationProvider } from '../types';
+import { geminiProvider } from './geminiService';
+import { openAiProvider } from './openAiService';
+import { localProvider } from './localService';
+import { withCache } from './cache';
+
+// The local provider is deterministic and free, so caching it would only hide its simulated latency.
+export const TRANSLATION_PROVIDERS: TranslationProvider[] = [
+  withCache(geminiProvider),
+  withCache(openAiProvider),
+  localProvider,
+];
+
+/**
+ * Looks up a provider by id, falling back to the offline provider.
+ * @param id The provider id.
+ * @returns The matching TranslationProvider.
+ */
+export const getProvider = (id: ProviderId): TranslationProvider =>
+  TRANSLATION_PROVIDERS.find(p => p.id === id) ?? localProvider;
+
+/**
+ * Picks the first provider that has credentials configured.
+ * The local provider needs none, so this always returns something usable.
+ */
+export const getDefaultProvider = (): TranslationProvider =>
+  TRANSLATION_PROVIDERS.find(p => p.isConfigured()) ?? localProvider;
@@ -0,0 +1,87 @@
+import { CancelledError, RateLimitError, TimeoutError, classifyError } from './errors';
+
+const DEFAULT_RETRIES = 2;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  timeoutMs?: number; // Per attempt
+}
+
+/**
+ * Waits for a number of milliseconds, or rejects as soon as the signal aborts.
+ * @param ms How long to wait.
+ * @param signal Cancels the wait.
+ * @returns A promise that resolves after the delay.
+ * @throws CancelledError if the signal aborts first.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError(signal.reason));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError(signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Exponential backoff with full jitter: a random delay up to base * 2^attempt,
+ * so that clients hitting the same rate limit do not retry in lockstep.
+ * @param attempt The zero-based number of the attempt that just failed.
+ * @returns The delay in milliseconds.
+ */
+export const getBackoffDelay = (attempt: number): number =>
+  Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+
+/**
+ * Runs a request with a per-attempt timeout and retries transient failures
+ * (rate limits, network errors and timeouts) with backoff. Everything thrown is
+ * normalized into a TranslatorError.
+ * @param request Performs one attempt; it must honor the signal it is given.
+ * @param options Caller signal, retry count and per-attempt timeout.
+ * @returns A promise resolving to the first successful result.
+ * @throws TranslatorError once retries are exhausted or the error is not retriable.
+ */
+export const withRetry = async <T,>(
+  request: (signal: AbortSignal) => Promise<T>,
+  { signal, retries = DEFAULT_RETRIES, timeoutMs = DEFAULT_TIMEOUT_MS }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw new CancelledError(signal.reason);
+    }
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(new TimeoutError()), timeoutMs);
+
+    try {
+      return await request(controller.signal);
+    } catch (caught) {
+      // SDKs report aborts in their own ways, so the signals decide what actually happened.
+      const error = signal?.aborted
+        ? new CancelledError(signal.reason)
+        : controller.signal.aborted ? new TimeoutError(undefined, caught) : classifyError(caught);
+      if (!error.retriable || attempt >= retries) {
+        throw error;
+      }
+      const retryAfter = error instanceof RateLimitError ? error.retryAfterMs : undefined;
+      console.warn(`Retrying after ${error.kind} error (retry ${attempt + 1} of ${retries}):`, error.message);
+      await sleep(retryAfter ?? getBackoffDelay(attempt), signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+};
@@ -0,0 +1,52 @@
+import type { RequestOptions, SentimentScore, TranslationProvider } from '../types';
+import { aggregateSentimentSamples } from '../sentiment';
+import { classifyError } from './errors';
+
+// Spread used when samples are taken across temperatures rather than at the model's default.
+const SAMPLING_TEMPERATURE_RANGE = { min: 0.2, max: 1.0 };
+
+/**
+ * Picks evenly spaced temperatures across SAMPLING_TEMPERATURE_RANGE.
+ * @param count How many temperatures are needed.
+ * @returns The temperatures, lowest first.
+ */
+export const getSamplingTemperatures = (count: number): number[] => {
+  const { min, max } = SAMPLING_TEMPERATURE_RANGE;
+  return Array.from({ length: count }, (_, i) =>
+    count === 1 ? max : Math.round((min + ((max - min) * i) / (count - 1)) * 100) / 100
+  );
+};
+
+/**
+ * Scores a text several times and aggregates the results into a mean with confidence.
+ * Every sample is a fresh request, since a cached score would repeat itself. Failed
+ * samples are left out, so with any existing score this only fails when cancelled.
+ * @param provider The provider used for scoring.
+ * @param text The text to score.
+ * @param count How many new samples to take.
+ * @param options Request options; set `varyTemperature` to sample across temperatures.
+ * @param existing Scores already available for the text, e.g. from the translation response.
+ * @returns The aggregated score.
+ * @throws TranslatorError if the request was cancelled, or if no score at all is available.
+ */
+export const sampleSentiment = async (
+  provider: TranslationProvider,
+  text: string,
+  count: number,
+  { varyTemperature = false, ...options }: RequestOptions & { varyTemperature?: boolean } = {},
+  existing: SentimentScore[] = []
+): Promise<SentimentScore> => {
+  const temperatures = varyTemperature ? getSamplingTemperatures(count) : Array<number | undefined>(count).fill(undefined);
+  const settled = await Promise.allSettled(
+    temperatures.map(temperature => provider.getSentiment(text, { ...options, bypassCache: true, temperature }))
+  );
+  const samples = settled.flatMap(r => (r.status === 'fulfilled' ? [r.value] : []));
+  const failures = settled.flatMap(r => (r.status === 'rejected' ? [classifyError(r.reason)] : []));
+  const cancelled = failures.find(e => e.kind === 'cancelled');
+  if (cancelled) throw cancelled;
+  if (failures.length > 0) {
+    console.warn(`${failures.length} of ${count} sentiment samples failed:`, failures[0].message);
+  }
+  if (existing.length + samples.length === 0) throw failures[0];
+  return aggregateSentimentSamples([...existing, ...samples]);
+};
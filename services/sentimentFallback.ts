@@ -0,0 +1,29 @@
+import type { RequestOptions, SentimentScore, TranslationProvider } from '../types';
+import { classifyError } from './errors';
+import { scoreWithLexicon } from '../lexiconSentiment';
+
+/**
+ * Scores a text with the provider, falling back to the offline lexicon scorer when the
+ * provider fails, so that a failure never shows up as a made-up neutral score.
+ * @param provider The provider used for scoring.
+ * @param text The text to score.
+ * @param languageCode The language of the text, needed by the lexicon scorer.
+ * @param options Request options passed on to the provider.
+ * @returns The score and whether it came from the lexicon scorer.
+ * @throws CancelledError if the request was cancelled; there is nothing to fall back for then.
+ */
+export const getSentimentWithFallback = async (
+  provider: TranslationProvider,
+  text: string,
+  languageCode: string,
+  options?: RequestOptions
+): Promise<{ sentiment: SentimentScore; isFallback: boolean }> => {
+  try {
+    return { sentiment: await provider.getSentiment(text, options), isFallback: false };
+  } catch (error) {
+    const translatorError = classifyError(error);
+    if (translatorError.kind === 'cancelled') throw translatorError;
+    console.warn("Sentiment analysis failed, using the lexicon scorer instead:", error);
+    return { sentiment: scoreWithLexicon(text, languageCode), isFallback: true };
+  }
+};
@@ -0,0 +1,90 @@
+import type { GenerationInfo, ModelSettings, ProviderId, RequestOptions, TranslationProvider } from '../types';
+import { getActivePromptVersions } from './promptTemplates';
+
+const MODEL_SETTINGS_STORAGE_KEY = 'sentiment-translator:model-settings';
+
+// The temperatures each backend accepts; a request outside the range is rejected.
+export const TEMPERATURE_RANGES: Record<ProviderId, { min: number; max: number }> = {
+  gemini: { min: 0, max: 2 },
+  openai: { min: 0, max: 2 },
+  local: { min: 0, max: 2 },
+};
+
+const DEFAULT_MODEL_SETTINGS: ModelSettings = { models: {}, systemInstruction: '' };
+
+const readModelSettings = (): ModelSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(MODEL_SETTINGS_STORAGE_KEY) ?? '{}');
+    return {
+      models: stored.models && typeof stored.models === 'object' ? stored.models : {},
+      temperature: typeof stored.temperature === 'number' ? stored.temperature : undefined,
+      systemInstruction: typeof stored.systemInstruction === 'string' ? stored.systemInstruction : '',
+    };
+  } catch {
+    return DEFAULT_MODEL_SETTINGS;
+  }
+};
+
+let modelSettings: ModelSettings = typeof localStorage === 'undefined' ? DEFAULT_MODEL_SETTINGS : readModelSettings();
+
+/**
+ * The user's model settings, applied by the remote providers to every request.
+ * @returns The settings.
+ */
+export const getModelSettings = (): ModelSettings => modelSettings;
+
+/**
+ * Replaces the model settings. They are kept in localStorage.
+ * @param settings The new settings.
+ */
+export const setModelSettings = (settings: ModelSettings): void => {
+  modelSettings = settings;
+  try {
+    localStorage.setItem(MODEL_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not save model settings:", error);
+  }
+};
+
+/**
+ * The model a provider should call.
+ * @param providerId The provider.
+ * @param defaultModel The provider's own default.
+ * @returns The user's override, or the default.
+ */
+export const resolveModel = (providerId: ProviderId, defaultModel: string): string =>
+  modelSettings.models[providerId]?.trim() || defaultModel;
+
+/**
+ * The sampling temperature of a request; one set on the request itself, e.g. while
+ * sampling sentiment several times, wins over the settings. It is clamped to the
+ * provider's range.
+ * @param providerId The provider.
+ * @param options The request options.
+ * @returns The temperature, or undefined for the model's default.
+ */
+export const resolveTemperature = (providerId: ProviderId, options?: RequestOptions): number | undefined => {
+  const temperature = options?.temperature ?? modelSettings.temperature;
+  if (temperature === undefined || Number.isNaN(temperature)) return undefined;
+  const { min, max } = TEMPERATURE_RANGES[providerId];
+  return Math.min(max, Math.max(min, temperature));
+};
+
+/**
+ * The system instruction to send, if any.
+ * @returns The instruction, or undefined when it is empty.
+ */
+export const resolveSystemInstruction = (): string | undefined => modelSettings.systemInstruction.trim() || undefined;
+
+/**
+ * Describes what a provider would produce a result with right now.
+ * @param provider The provider.
+ * @param options The request options, for a per-request temperature.
+ * @returns The model, temperature, system instruction and prompt versions.
+ */
+export const getGenerationInfo = (provider: TranslationProvider, options?: RequestOptions): GenerationInfo => ({
+  model: resolveModel(provider.id, provider.model),
+  temperature: resolveTemperature(provider.id, options),
+  systemInstruction: resolveSystemInstruction(),
+  promptVersions: getActivePromptVersions(),
+});
@@ -0,0 +1,359 @@
+import type {
+  SentimentScore,
+  TextStyle,
+  TranslationResponse,
+  PartialTranslationResponse,
+  EmojiSuggestion,
+  EmojiPlacement,
+  UITranslations,
+  ToneTargetedTranslation,
+  TranslationCandidate,
+  LanguageDetection,
+} from '../types';
+import type { RawModalParticle } from '../particles';
+import type { RawSegmentAlignment } from '../segmentation';
+import { buildRepairPrompt } from './prompts';
+import { normalizeLanguageTag, toLanguage } from '../languages';
+import { MalformedResponseError } from './errors';
+
+/**
+ * Thrown when a model response cannot be parsed or is missing required fields.
+ * Out-of-range values are clamped instead and do not cause this error.
+ */
+export class ResponseValidationError extends MalformedResponseError {
+  constructor(public readonly issues: string[], public readonly raw: unknown) {
+    super(`Invalid model response: ${issues.join('; ')}`);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+/** A translation response as validated, before particles and segments are located in the text. */
+export type RawTranslationResponse = Omit<TranslationResponse, 'particles' | 'segments'> & {
+  particles: RawModalParticle[];
+  segments: RawSegmentAlignment[];
+};
+
+const DEFAULT_UI_TRANSLATIONS: UITranslations = {
+  formal: 'Formal',
+  intimate: 'Intimate',
+  negative: 'Negative',
+  positive: 'Positive',
+  spoken: 'Spoken',
+  written: 'Written',
+};
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Collects issues while walking a response, so that every problem is reported at once.
+ */
+const createChecker = () => {
+  const issues: string[] = [];
+
+  const object = (value: unknown, path: string): Record<string, unknown> => {
+    if (!isObject(value)) {
+      issues.push(`${path} must be an object`);
+      return {};
+    }
+    return value;
+  };
+
+  const number = (value: unknown, path: string, min: number, max: number): number => {
+    const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+      issues.push(`${path} must be a number`);
+      return (min + max) / 2;
+    }
+    return clamp(parsed, min, max);
+  };
+
+  const string = (value: unknown, path: string): string => {
+    if (typeof value !== 'string' || !value.trim()) {
+      issues.push(`${path} must be a non-empty string`);
+      return '';
+    }
+    return value;
+  };
+
+  const style = (value: unknown, path: string): TextStyle => {
+    const normalized = typeof value === 'string' ? value.trim().toUpperCase() : '';
+    if (normalized === 'SPOKEN' || normalized === 'WRITTEN') {
+      return normalized;
+    }
+    issues.push(`${path} must be 'SPOKEN' or 'WRITTEN'`);
+    return 'WRITTEN';
+  };
+
+  const sentiment = (value: unknown, path: string): SentimentScore => {
+    if (!isObject(value)) {
+      issues.push(`${path} must be an object`);
+      return { score: 0, intimacy: 50, formality: 50 };
+    }
+    const raw = value;
+    return {
+      score: number(raw.score, `${path}.score`, -1, 1),
+      intimacy: number(raw.intimacy, `${path}.intimacy`, 0, 100),
+      formality: number(raw.formality, `${path}.formality`, 0, 100),
+    };
+  };
+
+  const finish = <T,>(result: T, raw: unknown): T => {
+    if (issues.length > 0) {
+      throw new ResponseValidationError(issues, raw);
+    }
+    return result;
+  };
+
+  return { issues, object, number, string, style, sentiment, finish };
+};
+
+/**
+ * Validates a sentiment score, clamping each axis into its range.
+ * @param raw The parsed model output.
+ * @returns The normalized score.
+ * @throws ResponseValidationError if a field is missing or not numeric.
+ */
+export const validateSentimentScore = (raw: unknown): SentimentScore => {
+  const check = createChecker();
+  return check.finish(check.sentiment(raw, 'sentiment'), raw);
+};
+
+// Optional list items are dropped individually when malformed rather than failing the whole response.
+const validateParticles = (value: unknown): RawModalParticle[] =>
+  (Array.isArray(value) ? value : []).flatMap(item => {
+    const check = createChecker();
+    const raw = check.object(item, 'particle');
+    const particle: RawModalParticle = {
+      text: check.string(raw.text, 'particle.text'),
+      language: typeof raw.language === 'string' ? raw.language : '',
+      function: typeof raw.function === 'string' ? raw.function : undefined,
+      scoreContribution: check.number(raw.scoreContribution, 'particle.scoreContribution', -1, 1),
+      intimacyContribution: check.number(raw.intimacyContribution, 'particle.intimacyContribution', -100, 100),
+      formalityContribution: check.number(raw.formalityContribution, 'particle.formalityContribution', -100, 100),
+    };
+    return check.issues.length === 0 ? [particle] : [];
+  });
+
+const validateSegments = (value: unknown): RawSegmentAlignment[] =>
+  (Array.isArray(value) ? value : []).flatMap(item => {
+    const check = createChecker();
+    const raw = check.object(item, 'segment');
+    const segment: RawSegmentAlignment = {
+      source: check.string(raw.source, 'segment.source'),
+      translation: check.string(raw.translation, 'segment.translation'),
+      sourceSentiment: check.sentiment(raw.sourceSentiment, 'segment.sourceSentiment'),
+      translatedSentiment: check.sentiment(raw.translatedSentiment, 'segment.translatedSentiment'),
+    };
+    return check.issues.length === 0 ? [segment] : [];
+  });
+
+/**
+ * Validates a translation response. Scores are clamped, styles are upper-cased,
+ * missing UI labels fall back to English and malformed particles or segments are dropped.
+ * @param raw The parsed model output.
+ * @returns The normalized response.
+ * @throws ResponseValidationError if a required field is missing or malformed.
+ */
+export const validateTranslationResponse = (raw: unknown): RawTranslationResponse => {
+  const check = createChecker();
+  const response = check.object(raw, 'response');
+  const labels = isObject(response.uiTranslations) ? response.uiTranslations : {};
+  const label = (key: keyof UITranslations): string => {
+    const value = labels[key];
+    return typeof value === 'string' && value.trim() ? value : DEFAULT_UI_TRANSLATIONS[key];
+  };
+
+  return check.finish({
+    translation: check.string(response.translation, 'translation'),
+    sourceSentiment: check.sentiment(response.sourceSentiment, 'sourceSentiment'),
+    translatedSentiment: check.sentiment(response.translatedSentiment, 'translatedSentiment'),
+    sourceStyle: check.style(response.sourceStyle, 'sourceStyle'),
+    translatedStyle: check.style(response.translatedStyle, 'translatedStyle'),
+    nuance: typeof response.nuance === 'string' && response.nuance.trim() ? response.nuance : undefined,
+    uiTranslations: {
+      formal: label('formal'),
+      intimate: label('intimate'),
+      negative: label('negative'),
+      positive: label('positive'),
+      spoken: label('spoken'),
+      written: label('written'),
+    },
+    particles: validateParticles(response.particles),
+    segments: validateSegments(response.segments),
+  }, raw);
+};
+
+/**
+ * Picks the usable fields out of a translation response that is still streaming in.
+ * Unlike validateTranslationResponse this never throws: a sentiment is only reported
+ * once all three axes have arrived and a style once it is complete.
+ * @param raw The partially parsed model output, see parsePartialJson.
+ * @returns The fields that can already be shown.
+ */
+export const extractPartialTranslation = (raw: unknown): PartialTranslationResponse => {
+  if (!isObject(raw)) return {};
+  const partial: PartialTranslationResponse = {};
+  const sentiment = (value: unknown) => {
+    const check = createChecker();
+    const score = check.sentiment(value, 'sentiment');
+    return check.issues.length === 0 ? score : undefined;
+  };
+  const style = (value: unknown) => {
+    const normalized = typeof value === 'string' ? value.trim().toUpperCase() : '';
+    return normalized === 'SPOKEN' || normalized === 'WRITTEN' ? normalized : undefined;
+  };
+
+  if (typeof raw.translation === 'string') partial.translation = raw.translation;
+  if (typeof raw.nuance === 'string' && raw.nuance.trim()) partial.nuance = raw.nuance;
+  const sourceSentiment = sentiment(raw.sourceSentiment);
+  if (sourceSentiment) partial.sourceSentiment = sourceSentiment;
+  const translatedSentiment = sentiment(raw.translatedSentiment);
+  if (translatedSentiment) partial.translatedSentiment = translatedSentiment;
+  const sourceStyle = style(raw.sourceStyle);
+  if (sourceStyle) partial.sourceStyle = sourceStyle;
+  const translatedStyle = style(raw.translatedStyle);
+  if (translatedStyle) partial.translatedStyle = translatedStyle;
+  return partial;
+};
+
+// Placements are optional advice: malformed ones, or ones for emojis that were not suggested, are dropped.
+const validateEmojiPlacements = (value: unknown, emojis: string[]): EmojiPlacement[] => {
+  const byEmoji = new Map<string, EmojiPlacement>();
+  for (const item of Array.isArray(value) ? value : []) {
+    const check = createChecker();
+    const raw = check.object(item, 'placement');
+    const emoji = typeof raw.emoji === 'string' ? raw.emoji.trim() : '';
+    const placement: EmojiPlacement = {
+      emoji,
+      after: typeof raw.after === 'string' ? raw.after : '',
+      predictedSentiment: check.sentiment(raw.predictedSentiment, 'placement.predictedSentiment'),
+    };
+    if (check.issues.length === 0 && emojis.includes(emoji) && !byEmoji.has(emoji)) {
+      byEmoji.set(emoji, placement);
+    }
+  }
+  return emojis.flatMap(emoji => byEmoji.get(emoji) ?? []);
+};
+
+/**
+ * Validates emoji suggestions: non-emoji entries and duplicates are removed and
+ * the list is trimmed to three. Placements are kept only for the remaining emojis.
+ * @param raw The parsed model output.
+ * @returns The normalized suggestion.
+ * @throws ResponseValidationError if the explanation is missing or fewer than three emojis remain.
+ */
+export const validateEmojiSuggestion = (raw: unknown): EmojiSuggestion => {
+  const check = createChecker();
+  const suggestion = check.object(raw, 'suggestion');
+  const emojis = [...new Set(
+    (Array.isArray(suggestion.emojis) ? suggestion.emojis : [])
+      .filter((e): e is string => typeof e === 'string' && EMOJI_PATTERN.test(e))
+      .map(e => e.trim())
+  )].slice(0, 3);
+  if (emojis.length < 3) {
+    check.issues.push(`emojis must contain 3 distinct emojis, got ${emojis.length}`);
+  }
+  return check.finish({
+    explanation: check.string(suggestion.explanation, 'explanation'),
+    emojis,
+    placements: validateEmojiPlacements(suggestion.placements, emojis),
+  }, raw);
+};
+
+/**
+ * Validates a tone-targeted rewrite.
+ * @param raw The parsed model output.
+ * @returns The normalized rewrite.
+ * @throws ResponseValidationError if the translation or style is missing.
+ */
+export const validateToneTargetedTranslation = (raw: unknown): ToneTargetedTranslation => {
+  const check = createChecker();
+  const response = check.object(raw, 'response');
+  return check.finish({
+    translation: check.string(response.translation, 'translation'),
+    translatedStyle: check.style(response.translatedStyle, 'translatedStyle'),
+  }, raw);
+};
+
+/**
+ * Validates a list of candidate translations.
+ * @param raw The parsed model output, an object with a `candidates` array.
+ * @returns The normalized candidates.
+ * @throws ResponseValidationError if the list is empty or any candidate is malformed.
+ */
+export const validateTranslationCandidates = (raw: unknown): TranslationCandidate[] => {
+  const check = createChecker();
+  const response = check.object(raw, 'response');
+  const items = Array.isArray(response.candidates) ? response.candidates : [];
+  if (items.length === 0) {
+    check.issues.push('candidates must be a non-empty array');
+  }
+  const candidates = items.map((item, i) => {
+    const candidate = check.object(item, `candidates[${i}]`);
+    return {
+      strategy: check.string(candidate.strategy, `candidates[${i}].strategy`),
+      translation: check.string(candidate.translation, `candidates[${i}].translation`),
+      sentiment: check.sentiment(candidate.sentiment, `candidates[${i}].sentiment`),
+      style: check.style(candidate.style, `candidates[${i}].style`),
+    };
+  });
+  return check.finish(candidates, raw);
+};
+
+/**
+ * Validates a detected language.
+ * @param raw The parsed model output, with a BCP-47 `code` and a `confidence`.
+ * @returns The detected language, named from its tag.
+ * @throws ResponseValidationError if the tag is missing or not well-formed.
+ */
+export const validateLanguageDetection = (raw: unknown): LanguageDetection => {
+  const check = createChecker();
+  const response = check.object(raw, 'response');
+  const code = normalizeLanguageTag(check.string(response.code, 'code'));
+  if (response.code && !code) {
+    check.issues.push('code must be a BCP-47 language tag');
+  }
+  const confidence = check.number(response.confidence, 'confidence', 0, 1);
+  return check.finish({ language: code ? toLanguage(code) : { code: '', name: '' }, confidence }, raw);
+};
+
+const parseJson = (text: string | undefined): unknown => {
+  try {
+    return JSON.parse(text ?? '');
+  } catch {
+    throw new ResponseValidationError(['response is not valid JSON'], text);
+  }
+};
+
+/**
+ * Sends a prompt, parses and validates the JSON reply and, if it is invalid,
+ * asks the model once more with the list of problems before giving up.
+ * @param send Sends a prompt to the model and returns the raw reply text.
+ * @param prompt The original prompt.
+ * @param validate Validates and normalizes the parsed reply.
+ * @param repair Whether to issue the single repair request.
+ * @returns A promise resolving to the validated value.
+ * @throws ResponseValidationError if the (repaired) reply is still invalid.
+ */
+export const requestValidated = async <T,>(
+  send: (prompt: string) => Promise<string | undefined>,
+  prompt: string,
+  validate: (raw: unknown) => T,
+  repair = true
+): Promise<T> => {
+  const text = await send(prompt);
+  try {
+    return validate(parseJson(text));
+  } catch (error) {
+    if (!repair || !(error instanceof ResponseValidationError)) {
+      throw error;
+    }
+    console.warn("Repairing invalid model response:", error.issues);
+    return validate(parseJson(await send(buildRepairPrompt(prompt, text ?? '', error.issues))));
+  }
+};
@@ -0,0 +1,50 @@
+import type { ConversationTurn, ThreadMessage, ThreadMessageResult } from './types';
+
+// "Name: message" or "名前：message". A name is short and has no sentence punctuation, and an ASCII
+// colon must be followed by a space, so that sentences, times and URLs are not taken for speakers.
+const SPEAKER_LINE = /^\s*([^:：\n.!?]{1,40})(?::(?=\s|$)|：)\s*(.*)$/;
+
+/**
+ * Splits a pasted chat log into messages. A line starting with "Name:" begins a new
+ * message; other lines continue the previous one. Text before the first speaker
+ * is attributed to an unnamed speaker.
+ * @param text The chat log.
+ * @returns The messages, in order.
+ */
+export const parseThread = (text: string): ThreadMessage[] => {
+  const messages: ThreadMessage[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const match = SPEAKER_LINE.exec(line);
+    if (match) {
+      messages.push({ id: crypto.randomUUID(), speaker: match[1].trim(), text: match[2].trim() });
+    } else if (line.trim()) {
+      const last = messages[messages.length - 1];
+      if (last) {
+        last.text = last.text ? `${last.text}\n${line.trim()}` : line.trim();
+      } else {
+        messages.push({ id: crypto.randomUUID(), speaker: '', text: line.trim() });
+      }
+    }
+  }
+  return messages.filter(m => m.text);
+};
+
+/**
+ * The earlier messages to send as context when translating one message of a thread.
+ * @param messages The whole thread.
+ * @param results The results so far, by message id; translated messages carry their translation.
+ * @param index The position of the message about to be translated.
+ * @param limit How many earlier messages to include at most.
+ * @returns The most recent earlier messages, oldest first.
+ */
+export const getThreadContext = (
+  messages: ThreadMessage[],
+  results: Record<string, ThreadMessageResult>,
+  index: number,
+  limit: number
+): ConversationTurn[] =>
+  messages.slice(Math.max(0, index - limit), index).map(m => ({
+    speaker: m.speaker,
+    text: m.text,
+    translation: results[m.id]?.response?.translation,
+  }));
@@ -2,20 +2,57 @@ export interface SentimentScore {
   score: number; // A value from -1.0 (negative) to 1.0 (positive)
   intimacy: number; // A value from 0 (distant) to 100 (intimate)
   formality: number; // A value from 0 (informal) to 100 (formal)
+  confidence?: SentimentConfidence; // Present when the score is the mean of several samples
+}
+
+export interface SentimentConfidence {
+  samples: number; // How many scores the mean is based on
+  stdDev: { score: number; intimacy: number; formality: number }; // Sample standard deviation per axis
 }
 
 export interface Sentiment extends SentimentScore {
   emoji: string;
+  isFallback?: boolean; // Scored offline by the lexicon scorer because the provider failed
 }
 
 export interface Language {
-  code: string;
+  code: string; // BCP-47 tag, e.g. 'ko' or 'pt-BR'
+  name: string;
+}
+
+export interface LanguageDetection {
+  language: Language;
+  confidence: number; // From 0 (a guess) to 1 (certain)
+}
+
+export interface EmojiLexiconEntry extends SentimentScore {
+  emoji: string;
+  name?: string;
+  // Emoji Sentiment Ranking counts, if the score was derived from them
+  occurrences?: number;
+  negative?: number;
+  neutral?: number;
+  positive?: number;
+}
+
+export interface EmojiLexicon {
+  id: string;
   name: string;
+  source?: string;
+  language?: string; // Base language code the lexicon was loaded for; unset for the bundled lexicon
+  entries: EmojiLexiconEntry[];
+}
+
+export interface EmojiPlacement {
+  emoji: string;
+  after: string; // Fragment of the translation (a clause or particle) the emoji follows; empty to append at the end
+  predictedSentiment?: SentimentScore; // Expected score of the translation once the emoji is inserted there
 }
 
 export interface EmojiSuggestion {
   explanation: string;
   emojis: string[];
+  placements?: EmojiPlacement[]; // At most one per emoji, in the order of `emojis`
 }
 
 export interface UITranslations {
@@ -29,6 +66,40 @@ export interface UITranslations {
 
 export type TextStyle = 'SPOKEN' | 'WRITTEN';
 
+export interface ModalParticle {
+  text: string;
+  start: number; // Character offset of the particle in the source text (inclusive)
+  end: number; // Character offset of the particle in the source text (exclusive)
+  language: string; // Language code, e.g. 'de'
+  function?: string; // Short description of the pragmatic function, e.g. "softens the request"
+  contribution: SentimentScore; // Estimated change in each axis caused by the particle (deltas, not absolutes)
+}
+
+export interface TextSegment {
+  text: string;
+  start: number; // Character offset in the full text (inclusive)
+  end: number; // Character offset in the full text (exclusive)
+  sentiment: SentimentScore;
+}
+
+// A sentence or clause of the source paired with the part of the translation that renders it.
+export interface SegmentAlignment {
+  source: TextSegment;
+  translation: TextSegment;
+}
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface TextHighlight {
+  start: number;
+  end: number;
+  color: string; // Any CSS background color
+  tooltip: string;
+}
+
 export interface TranslationResponse {
   translation: string;
   sourceSentiment: SentimentScore;
@@ -37,4 +108,283 @@ export interface TranslationResponse {
   nuance?: string;
   sourceStyle: TextStyle;
   translatedStyle: TextStyle;
-}
\ No newline at end of file
+  particles?: ModalParticle[];
+  segments?: SegmentAlignment[];
+}
+
+// The fields of a translation response that have arrived so far while it streams in.
+export type PartialTranslationResponse = Partial<Pick<
+  TranslationResponse,
+  'translation' | 'sourceSentiment' | 'translatedSentiment' | 'sourceStyle' | 'translatedStyle' | 'nuance'
+>>;
+
+export interface ToneTargetedTranslation {
+  translation: string;
+  translatedStyle: TextStyle;
+}
+
+export interface TranslationCandidate {
+  strategy: string; // e.g. 'literal', 'natural', 'emotionally faithful'
+  translation: string;
+  sentiment: SentimentScore;
+  style: TextStyle;
+}
+
+export interface RankedCandidate extends TranslationCandidate {
+  distance: number; // Distance to the source sentiment across all three axes, 0..1 (lower is more faithful)
+}
+
+// An extra labelled point drawn on the sentiment map, e.g. an alternative translation.
+export interface PlotPoint {
+  id: string;
+  label: string;
+  sentiment: SentimentScore;
+  isSelected?: boolean;
+}
+
+// A saved translation run, restorable into the editor.
+export interface HistoryEntry {
+  id: string;
+  timestamp: number; // Milliseconds since the epoch
+  providerId: ProviderId;
+  sourceLanguage: Language;
+  targetLanguage: Language;
+  sourceText: string;
+  translatedText: string;
+  sourceSentiment: Sentiment;
+  translatedSentiment: Sentiment;
+  nuance?: string;
+  sourceStyle: TextStyle;
+  translatedStyle: TextStyle;
+  uiTranslations: UITranslations;
+  emojiSuggestion: EmojiSuggestion | null;
+  particles?: ModalParticle[];
+  segments?: SegmentAlignment[];
+  isFavorite: boolean;
+  generation?: GenerationInfo; // Missing for entries saved before settings were recorded
+  audience?: AudienceProfile; // The profile translated for, if any
+}
+
+export interface BatchRow {
+  id: string;
+  text: string;
+}
+
+export type BatchRowStatus = 'pending' | 'done' | 'error';
+
+export interface BatchRowResult {
+  rowId: string;
+  status: BatchRowStatus;
+  attempts: number;
+  response?: TranslationResponse;
+  emojiSuggestion?: EmojiSuggestion | null;
+  error?: string;
+  generation?: GenerationInfo;
+}
+
+// A corpus run, checkpointed after every row so it can be resumed after a reload.
+export interface BatchJob {
+  id: string; // Derived from the corpus content, language pair and provider
+  fileName: string;
+  createdAt: number;
+  providerId: ProviderId;
+  sourceLanguage: Language;
+  targetLanguage: Language;
+  rows: BatchRow[];
+  results: Record<string, BatchRowResult>;
+}
+
+export type RoundTripFlag = 'polarity' | 'sentiment' | 'formality';
+
+// The translation translated back into the source language, compared with the original.
+export interface RoundTripResult {
+  translation: string; // The forward translation that was checked
+  backTranslation: string;
+  sourceSentiment: SentimentScore;
+  backSentiment: SentimentScore;
+  flags: RoundTripFlag[];
+}
+
+// One target of a fan-out, where the same text is translated into several languages at once.
+export interface FanOutResult {
+  language: Language;
+  status: 'running' | 'done' | 'error';
+  response?: TranslationResponse;
+  error?: string;
+}
+
+// One message of a conversation, translated in thread mode.
+export interface ThreadMessage {
+  id: string;
+  speaker: string;
+  text: string;
+}
+
+export interface ThreadMessageResult {
+  messageId: string;
+  status: 'running' | 'done' | 'error';
+  response?: TranslationResponse;
+  error?: string;
+}
+
+// An earlier message given as context when translating a later one.
+export interface ConversationTurn {
+  speaker: string;
+  text: string;
+  translation?: string; // Missing if it has not been translated
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'local';
+
+// A translation result packaged for export, or for sharing as a read-only link.
+export interface TranslationReport {
+  formatVersion: 1;
+  createdAt: number; // Milliseconds since the epoch
+  providerId: ProviderId;
+  sourceLanguage: Language;
+  targetLanguage: Language;
+  sourceText: string;
+  response: TranslationResponse;
+  emojiSuggestion: EmojiSuggestion | null;
+  isEdited: boolean; // The translation was changed by hand after the model produced it
+  generation?: GenerationInfo;
+  audience?: AudienceProfile;
+}
+
+export interface ValueRange {
+  min: number;
+  max: number;
+}
+
+// A region of the sentiment map, on the 0-100 scales of SentimentScore.
+export interface ToneRange {
+  formality: ValueRange;
+  intimacy: ValueRange;
+}
+
+export type HonorificLevel = 'casual' | 'polite' | 'honorific';
+
+export type EmojiPolicy = 'none' | 'sparing' | 'encouraged';
+
+// Who a translation is written for, and the tone that suits them.
+export interface AudienceProfile extends ToneRange {
+  id: string;
+  name: string; // e.g. "Korean elder (jondaetmal)"
+  honorifics: HonorificLevel;
+  emojiPolicy: EmojiPolicy;
+  notes?: string; // Free-form guidance passed to the model
+  isBuiltIn?: boolean;
+}
+
+export type RangePosition = 'below' | 'inside' | 'above';
+
+// Where a score lies relative to a ToneRange, per axis.
+export interface ToneFit {
+  isInRange: boolean;
+  formality: RangePosition;
+  intimacy: RangePosition;
+}
+
+// A required rendering of a term for one language pair. A translation equal to the
+// term marks a do-not-translate term, such as a product name.
+export interface GlossaryEntry {
+  id: string;
+  term: string;
+  translation: string;
+  notes?: string;
+  caseSensitive: boolean;
+}
+
+// A glossary term that occurs in the source but is not rendered as required.
+export interface GlossaryViolation {
+  entry: GlossaryEntry;
+  expected: number; // Occurrences of the term in the source
+  found: number; // Occurrences of the required translation in the translation
+}
+
+export type PromptTemplateId = 'sentiment' | 'translation' | 'emojiSuggestion' | 'toneTarget' | 'candidates' | 'languageDetection';
+
+// A named, versioned prompt with {{variable}} placeholders.
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  version: string; // Unique per id, e.g. '1' or '2-no-nuance'
+  name: string;
+  template: string;
+  isBuiltIn?: boolean;
+}
+
+export interface ModelSettings {
+  models: Partial<Record<ProviderId, string>>; // Overrides each provider's default model
+  temperature?: number; // The model's default when unset
+  systemInstruction: string; // Empty for none
+}
+
+// What produced a result, so that runs with different settings can be told apart.
+export interface GenerationInfo {
+  model: string;
+  temperature?: number;
+  systemInstruction?: string;
+  promptVersions: Record<PromptTemplateId, string>;
+}
+
+// Per-call settings accepted by every provider method.
+export interface RequestOptions {
+  bypassCache?: boolean; // Always call the backend, then refresh the cached entry
+  repairInvalid?: boolean; // Re-ask the model once when its response fails validation (default true)
+  signal?: AbortSignal; // Cancels the request, including pending retries
+  retries?: number; // Retries for transient failures such as rate limits and timeouts
+  temperature?: number; // Sampling temperature; the model's default when unset
+  audience?: AudienceProfile; // Translation requests only: the audience to write for
+  glossary?: GlossaryEntry[]; // Translation requests only: terms that must be rendered as given
+  context?: ConversationTurn[]; // Translation requests only: earlier messages of the conversation, oldest first
+  targetLanguageCode?: string; // Emoji suggestions only: language of the translation, for per-language emoji lexicons
+}
+
+/**
+ * A backend capable of translating text and scoring its sentiment.
+ * Components talk to this interface only, so vendors can be swapped freely.
+ */
+export interface TranslationProvider {
+  id: ProviderId;
+  name: string;
+  model: string;
+  isConfigured: () => boolean;
+  getSentiment: (text: string, options?: RequestOptions) => Promise<SentimentScore>;
+  getTranslationAndSentiment: (
+    text: string,
+    sourceLanguageCode: string,
+    targetLanguageName: string,
+    options?: RequestOptions
+  ) => Promise<TranslationResponse>;
+  // Like getTranslationAndSentiment, but reports fields as they are generated.
+  streamTranslationAndSentiment: (
+    text: string,
+    sourceLanguageCode: string,
+    targetLanguageName: string,
+    onPartial: (partial: PartialTranslationResponse) => void,
+    options?: RequestOptions
+  ) => Promise<TranslationResponse>;
+  getEmojiSuggestions: (
+    sourceText: string,
+    translatedText: string,
+    sourceScore: number,
+    translatedScore: number,
+    options?: RequestOptions
+  ) => Promise<EmojiSuggestion>;
+  getToneTargetedTranslation: (
+    text: string,
+    sourceLanguageCode: string,
+    targetLanguageName: string,
+    currentTranslation: string,
+    target: SentimentScore,
+    options?: RequestOptions
+  ) => Promise<ToneTargetedTranslation>;
+  getTranslationCandidates: (
+    text: string,
+    sourceLanguageCode: string,
+    targetLanguageName: string,
+    count: number,
+    options?: RequestOptions
+  ) => Promise<TranslationCandidate[]>;
+  detectLanguage: (text: string, options?: RequestOptions) => Promise<LanguageDetection>;
+}